@@ -3,9 +3,64 @@
  * 
  * Utility class for calculating velocity and acceleration of a SceneObject
  * based on position changes over time. Provides smoothed values to avoid
- * jittery calculations from frame-to-frame variations.
+ * jittery calculations from frame-to-frame variations. Smoothing is
+ * frame-rate independent: time-aware exponential smoothing, a One Euro
+ * filter, or a Kalman filter that estimates velocity and acceleration together.
+ *
+ * The target's rotation is differentiated the same way: angular velocity and
+ * angular acceleration (degrees/sec, world space) use the same filter mode,
+ * with their own One Euro and Kalman settings since they are in degrees
+ * rather than position units, and roll/pitch/yaw are measured against a
+ * reference orientation.
+ *
+ * Instead of the live target, a recorded MotionTrace can be replayed through
+ * the same calculations; replays produce the same derived values every run.
+ *
+ * Other scripts can subscribe to motion start/stop (velocityThreshold) and to
+ * crossings of thresholds they register on any motion source (addThreshold)
+ * instead of polling the getters every frame.
  */
 
+import { Event, PublicApi } from "./Event";
+import { LogLevel, Logger, setCategoryLevel } from "./Logger";
+import { FilterMode, MotionEstimator, MotionFilterSettings } from "./MotionFilter";
+import { MotionSource, readMotionSource } from "./MotionSource";
+import { MotionTrace } from "./MotionTrace";
+
+const log = new Logger("AccelerationCalculator");
+
+const RADIANS_TO_DEGREES = 180.0 / Math.PI;
+
+export type MotionEvent = {
+    // Sample time in seconds
+    time: number;
+    velocity: vec3;
+    speed: number;
+    acceleration: vec3;
+};
+
+export type ThresholdEvent = {
+    // Name the threshold was registered with
+    name: string;
+    source: MotionSource;
+    // Motion source value that crossed the threshold
+    value: number;
+    threshold: number;
+    // True when crossing upwards, false when dropping below
+    rising: boolean;
+    time: number;
+};
+
+// A threshold registered with addThreshold
+type WatchedThreshold = {
+    name: string;
+    source: MotionSource;
+    threshold: number;
+    direction: vec3;
+    // Side of the threshold at the last sample, null before the first one
+    above: boolean | null;
+};
+
 @component
 export class AccelerationCalculator extends BaseScriptComponent {
     @input
@@ -13,177 +68,441 @@ export class AccelerationCalculator extends BaseScriptComponent {
     targetObject: SceneObject;
 
     @input
-    @hint("Smoothing factor for velocity calculations (0.0 = no smoothing, 0.9 = heavy smoothing)")
+    @hint("How velocity and acceleration are filtered")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Exponential (time-aware)", FilterMode.Exponential),
+        new ComboBoxItem("One Euro", FilterMode.OneEuro),
+        new ComboBoxItem("Kalman (constant acceleration)", FilterMode.Kalman)
+    ]))
+    filterMode: number = FilterMode.Exponential;
+
+    @input
+    @hint("Smoothing factor for velocity calculations at 60fps (0.0 = no smoothing, 0.9 = heavy smoothing)")
     @widget(new SliderWidget(0.0, 0.95, 0.01))
     smoothingFactor: number = 0.7;
 
+    @input
+    @hint("One Euro: cutoff frequency at rest in Hz (lower = less jitter)")
+    oneEuroMinCutoff: number = 1.0;
+
+    @input
+    @hint("One Euro: cutoff increase with speed (higher = less lag)")
+    oneEuroBeta: number = 0.01;
+
+    @input
+    @hint("Kalman: process noise (higher = follows sudden changes faster)")
+    kalmanProcessNoise: number = 5000.0;
+
+    @input
+    @hint("Kalman: position measurement noise (higher = smoother, more lag)")
+    kalmanMeasurementNoise: number = 0.01;
+
+    @input
+    @hint("One Euro for rotation: cutoff increase with angular speed in degrees/sec (higher = less lag)")
+    angularOneEuroBeta: number = 0.004;
+
+    @input
+    @hint("Kalman for rotation: process noise (higher = follows sudden turns faster)")
+    angularKalmanProcessNoise: number = 20000.0;
+
+    @input
+    @hint("Kalman for rotation: angle measurement noise in degrees² (higher = smoother, more lag)")
+    angularKalmanMeasurementNoise: number = 0.05;
+
     @input
     @hint("Minimum velocity threshold to register movement")
     velocityThreshold: number = 0.01;
 
     @input
-    @hint("Enable debug logging of calculated values")
+    @hint("Minimum angular speed (degrees/sec) to register rotation")
+    angularVelocityThreshold: number = 10.0;
+
+    @input
+    @hint("Measure roll/pitch/yaw relative to this object (e.g. the head). Leave empty to measure from the orientation at start (see resetOrientation)")
+    @allowUndefined
+    orientationReference: SceneObject;
+
+    @input
+    @hint("Recorded trace JSON (from MotionRecorder) to replay instead of the live target. Leave empty for live tracking")
+    replayTraceJson: string = "";
+
+    @input
+    @hint("Restart the replay when it reaches the end of the trace")
+    loopReplay: boolean = true;
+
+    @input
+    @hint("Log debug output for this component (raises its log level to Debug)")
     enableDebugLogging: boolean = false;
 
-    // Private properties for calculations
-    private previousPosition: vec3 | null = null;
-    private previousVelocity: vec3 = vec3.zero();
+    // Private properties for calculations. Velocity and acceleration of the
+    // position are filtered by positionMotion; the raw velocity is kept for logging.
+    private positionMotion: MotionEstimator = new MotionEstimator();
     private currentVelocity: vec3 = vec3.zero();
-    private smoothedVelocity: vec3 = vec3.zero();
-    private acceleration: vec3 = vec3.zero();
     private previousTime: number = 0;
 
+    // Rotation: per-sample rotations are summed into a rotation vector (in
+    // degrees) whose derivatives are the angular velocity and acceleration
+    private previousRotation: quat | null = null;
+    private rotationSum: vec3 = vec3.zero();
+    private angularMotion: MotionEstimator = new MotionEstimator();
+    // Orientation roll/pitch/yaw are measured from when there is no reference object
+    private referenceRotation: quat | null = null;
+    private orientation: vec3 = vec3.zero();
+
+    // Events
+    private onMotionStartEvent = new Event<MotionEvent>();
+    private onMotionStopEvent = new Event<MotionEvent>();
+    private onThresholdCrossedEvent = new Event<ThresholdEvent>();
+
+    /**
+     * Fires when the speed rises above velocityThreshold
+     */
+    public readonly onMotionStart: PublicApi<MotionEvent> = this.onMotionStartEvent.publicApi();
+
+    /**
+     * Fires when the speed drops back to velocityThreshold or below
+     */
+    public readonly onMotionStop: PublicApi<MotionEvent> = this.onMotionStopEvent.publicApi();
+
+    /**
+     * Fires when a threshold registered with addThreshold is crossed either way
+     */
+    public readonly onThresholdCrossed: PublicApi<ThresholdEvent> = this.onThresholdCrossedEvent.publicApi();
+
+    private wasMoving: boolean = false;
+    private thresholds: WatchedThreshold[] = [];
+
+    // Trace replay: next sample to feed, and the offset that keeps replayed
+    // timestamps increasing across loops
+    private replayTrace: MotionTrace | null = null;
+    private replayIndex: number = 0;
+    private replayStartTime: number = 0;
+    private replayTimeOffset: number = 0;
+
     // Public getters for external access
     public get velocity(): vec3 {
-        return this.smoothedVelocity;
+        return this.positionMotion.velocity;
     }
 
     public get velocityMagnitude(): number {
-        return this.smoothedVelocity.length;
+        return this.positionMotion.speed;
     }
 
     public get accelerationVector(): vec3 {
-        return this.acceleration;
+        return this.positionMotion.accelerationVector;
     }
 
     public get accelerationMagnitude(): number {
-        return this.acceleration.length;
+        return this.positionMotion.accelerationVector.length;
+    }
+
+    /**
+     * Last processed position of the target (or of the replayed trace)
+     */
+    public get position(): vec3 {
+        return this.positionMotion.position;
     }
 
     public get isMoving(): boolean {
         return this.velocityMagnitude > this.velocityThreshold;
     }
 
+    /**
+     * Smoothed angular velocity in degrees/sec, as a world-space rotation axis
+     * scaled by the speed (right-hand rule)
+     */
+    public get angularVelocity(): vec3 {
+        return this.angularMotion.velocity;
+    }
+
+    /**
+     * Rotation speed in degrees/sec
+     */
+    public get angularSpeed(): number {
+        return this.angularMotion.speed;
+    }
+
+    /**
+     * Angular acceleration in degrees/sec²
+     */
+    public get angularAcceleration(): vec3 {
+        return this.angularMotion.accelerationVector;
+    }
+
+    public get angularAccelerationMagnitude(): number {
+        return this.angularMotion.accelerationVector.length;
+    }
+
+    public get isRotating(): boolean {
+        return this.angularSpeed > this.angularVelocityThreshold;
+    }
+
+    /**
+     * Orientation relative to the reference in degrees: x = pitch (around
+     * right), y = yaw (around up), z = roll (around forward)
+     */
+    public get orientationAngles(): vec3 {
+        return this.orientation;
+    }
+
+    public get roll(): number {
+        return this.orientation.z;
+    }
+
+    public get pitch(): number {
+        return this.orientation.x;
+    }
+
+    public get yaw(): number {
+        return this.orientation.y;
+    }
+
+    public get isReplaying(): boolean {
+        return this.replayTrace !== null;
+    }
+
     onAwake(): void {
-        if (!this.targetObject) {
-            print("AccelerationCalculator: ERROR - No target object specified!");
+        if (this.enableDebugLogging) {
+            setCategoryLevel(log.category, LogLevel.Debug);
+        }
+
+        if (this.replayTraceJson.length > 0) {
+            const trace = MotionTrace.fromJSON(this.replayTraceJson);
+            if (trace) {
+                this.startReplay(trace, this.loopReplay);
+            } else {
+                log.error("replayTraceJson is not a valid trace, using live target");
+            }
+        }
+
+        if (!this.targetObject && !this.replayTrace) {
+            log.error("No target object specified!");
             return;
         }
 
-        print("AccelerationCalculator: Initializing...");
+        if (this.replayTrace) {
+            this.createEvent("UpdateEvent").bind(() => {
+                this.updateCalculations();
+            });
+            log.info("Replaying trace with " + this.replayTrace.length + " samples");
+            return;
+        }
+
+        log.debug("Initializing...");
         this.previousTime = getTime();
-        this.previousPosition = this.targetObject.getTransform().getWorldPosition();
-        
-        print("AccelerationCalculator: Initial position: " + this.previousPosition.toString());
-        print("AccelerationCalculator: Initial time: " + this.previousTime.toFixed(3));
-        
-        // Initialize all vectors
-        this.previousVelocity = vec3.zero();
         this.currentVelocity = vec3.zero();
-        this.smoothedVelocity = vec3.zero();
-        this.acceleration = vec3.zero();
+        this.positionMotion.update(this.previousTime, this.targetObject.getTransform().getWorldPosition(), this);
+        
+        log.debug("Initial position: " + this.position.toString());
+        log.debug("Initial time: " + this.previousTime.toFixed(3));
         
-        print("AccelerationCalculator: Initialization complete");
-        print("AccelerationCalculator: Velocity threshold: " + this.velocityThreshold);
-        print("AccelerationCalculator: Smoothing factor: " + this.smoothingFactor);
+        log.info("Initialization complete");
+        log.debug("Velocity threshold: " + this.velocityThreshold);
+        log.debug("Smoothing factor: " + this.smoothingFactor);
+        log.debug("Filter mode: " + FilterMode[this.filterMode]);
 
         // Bind the update event - this is the correct pattern!
         this.createEvent("UpdateEvent").bind(() => {
             this.updateCalculations();
         });
         
-        print("AccelerationCalculator: UpdateEvent bound successfully!");
+        log.debug("UpdateEvent bound successfully!");
     }
 
     private updateCalculations(): void {
-        if (!this.targetObject) {
-            print("AccelerationCalculator: WARNING - No target object in updateCalculations");
+        if (this.replayTrace) {
+            this.advanceReplay();
+        } else if (!this.targetObject) {
+            log.warn("No target object in updateCalculations");
             return;
+        } else {
+            this.calculateMotionValues();
         }
 
-        this.calculateMotionValues();
-
-        // Always log basic values so you can see what's happening
-        print("AccelerationCalculator: Velocity Mag: " + this.velocityMagnitude.toFixed(5) + 
-              " | Accel Mag: " + this.accelerationMagnitude.toFixed(5) + 
+        // Per-frame summary, only built when tracing
+        log.trace(() => "Velocity Mag: " + this.velocityMagnitude.toFixed(5) +
+              " | Accel Mag: " + this.accelerationMagnitude.toFixed(5) +
               " | Moving: " + this.isMoving);
 
-        if (this.enableDebugLogging) {
+        if (log.isEnabled(LogLevel.Debug)) {
             this.logDebugInfo();
         }
     }
 
     private calculateMotionValues(): void {
-        const currentTime = getTime();
-        const currentPosition = this.targetObject.getTransform().getWorldPosition();
+        const transform = this.targetObject.getTransform();
+        this.processSample(getTime(), transform.getWorldPosition(), transform.getWorldRotation());
+    }
+
+    /**
+     * Run the motion calculations for one position sample. Used for the live
+     * target, trace replays and offline processing.
+     * @param currentTime Sample time in seconds
+     * @param currentPosition World position at that time
+     * @param currentRotation World rotation at that time; without it the angular values don't change
+     */
+    public processSample(currentTime: number, currentPosition: vec3, currentRotation?: quat): void {
         const deltaTime = currentTime - this.previousTime;
 
-        print("AccelerationCalculator: [CALC] DeltaTime: " + deltaTime.toFixed(6) + "s");
-        print("AccelerationCalculator: [CALC] Current Pos: " + currentPosition.toString());
+        log.trace(() => "[CALC] DeltaTime: " + deltaTime.toFixed(6) + "s");
+        log.trace(() => "[CALC] Current Pos: " + currentPosition.toString());
 
         // Avoid division by zero
         if (deltaTime <= 0) {
-            print("AccelerationCalculator: [CALC] Skipping - deltaTime too small: " + deltaTime);
+            log.trace(() => "[CALC] Skipping - deltaTime too small: " + deltaTime);
             return;
         }
 
-        // Calculate raw velocity
-        if (this.previousPosition) {
-            const positionDelta = currentPosition.sub(this.previousPosition);
-            print("AccelerationCalculator: [CALC] Position Delta: " + positionDelta.toString());
-            print("AccelerationCalculator: [CALC] Position Delta Magnitude: " + positionDelta.length.toFixed(6));
+        // Raw velocity, for logging; the filtered values come from positionMotion
+        if (this.positionMotion.hasPosition) {
+            const positionDelta = currentPosition.sub(this.positionMotion.position);
+            log.trace(() => "[CALC] Position Delta: " + positionDelta.toString());
+            log.trace(() => "[CALC] Position Delta Magnitude: " + positionDelta.length.toFixed(6));
             
             this.currentVelocity = positionDelta.uniformScale(1.0 / deltaTime);
-            print("AccelerationCalculator: [CALC] Raw Velocity: " + this.currentVelocity.toString());
-            print("AccelerationCalculator: [CALC] Raw Velocity Magnitude: " + this.currentVelocity.length.toFixed(6));
+            log.trace(() => "[CALC] Raw Velocity: " + this.currentVelocity.toString());
+            log.trace(() => "[CALC] Raw Velocity Magnitude: " + this.currentVelocity.length.toFixed(6));
         } else {
-            print("AccelerationCalculator: [CALC] No previous position - first frame");
+            log.trace(() => "[CALC] No previous position - first frame");
         }
 
-        // Apply smoothing to velocity
-        const previousSmoothedVel = this.smoothedVelocity;
-        this.smoothedVelocity = this.applySmoothing(this.smoothedVelocity, this.currentVelocity);
-        print("AccelerationCalculator: [CALC] Smoothed Velocity: " + this.smoothedVelocity.toString());
-        print("AccelerationCalculator: [CALC] Smoothed Velocity Magnitude: " + this.smoothedVelocity.length.toFixed(6));
+        this.positionMotion.update(currentTime, currentPosition, this);
+        log.trace(() => "[CALC] Smoothed Velocity: " + this.velocity.toString());
+        log.trace(() => "[CALC] Smoothed Velocity Magnitude: " + this.velocityMagnitude.toFixed(6));
+        log.trace(() => "[CALC] Final Acceleration: " + this.accelerationVector.toString());
+        log.trace(() => "[CALC] Final Acceleration Magnitude: " + this.accelerationMagnitude.toFixed(6));
 
-        // Calculate acceleration from velocity change
-        const velocityDelta = this.smoothedVelocity.sub(this.previousVelocity);
-        print("AccelerationCalculator: [CALC] Velocity Delta: " + velocityDelta.toString());
-        print("AccelerationCalculator: [CALC] Velocity Delta Magnitude: " + velocityDelta.length.toFixed(6));
-        
-        this.acceleration = velocityDelta.uniformScale(1.0 / deltaTime);
-        print("AccelerationCalculator: [CALC] Final Acceleration: " + this.acceleration.toString());
-        print("AccelerationCalculator: [CALC] Final Acceleration Magnitude: " + this.acceleration.length.toFixed(6));
+        if (currentRotation) {
+            this.processRotation(currentTime, currentRotation);
+        }
 
         // Update previous values for next frame
-        this.previousPosition = currentPosition;
-        this.previousVelocity = this.smoothedVelocity;
         this.previousTime = currentTime;
+
+        this.emitEvents(currentTime);
         
-        print("AccelerationCalculator: [CALC] --- Frame Complete ---");
+        log.trace(() => "[CALC] --- Frame Complete ---");
     }
 
-    private applySmoothing(previousValue: vec3, currentValue: vec3): vec3 {
-        // Exponential moving average: smoothed = (1 - alpha) * current + alpha * previous
-        const alpha = this.smoothingFactor;
-        const oneMinusAlpha = 1.0 - alpha;
-        
-        print("AccelerationCalculator: [SMOOTH] Alpha: " + alpha.toFixed(3) + " | OneMinusAlpha: " + oneMinusAlpha.toFixed(3));
-        print("AccelerationCalculator: [SMOOTH] Previous: " + previousValue.toString());
-        print("AccelerationCalculator: [SMOOTH] Current: " + currentValue.toString());
-        
-        const smoothed = new vec3(
-            oneMinusAlpha * currentValue.x + alpha * previousValue.x,
-            oneMinusAlpha * currentValue.y + alpha * previousValue.y,
-            oneMinusAlpha * currentValue.z + alpha * previousValue.z
-        );
-        
-        print("AccelerationCalculator: [SMOOTH] Result: " + smoothed.toString());
-        return smoothed;
+    /**
+     * Watch a motion source and fire onThresholdCrossed whenever its value
+     * crosses the threshold. Registering an existing name replaces it.
+     * @param name Name reported in the events
+     * @param source Motion signal to watch
+     * @param threshold Value to watch for, in the source's MotionSource units (turns for angular sources)
+     * @param direction Direction (or rotation axis) for the *InDirection sources
+     */
+    public addThreshold(name: string, source: MotionSource, threshold: number, direction: vec3 = vec3.up()): void {
+        this.removeThreshold(name);
+        this.thresholds.push({ name: name, source: source, threshold: threshold, direction: direction, above: null });
+    }
+
+    /**
+     * Stop watching a threshold registered with addThreshold
+     */
+    public removeThreshold(name: string): void {
+        this.thresholds = this.thresholds.filter((t) => t.name !== name);
+    }
+
+    // Motion start/stop and threshold crossings for the sample just processed
+    private emitEvents(time: number): void {
+        const moving = this.isMoving;
+        if (moving !== this.wasMoving) {
+            this.wasMoving = moving;
+            const event: MotionEvent = {
+                time: time,
+                velocity: this.velocity,
+                speed: this.velocityMagnitude,
+                acceleration: this.accelerationVector
+            };
+            log.debug("Motion " + (moving ? "started" : "stopped") + " at speed " + event.speed.toFixed(4));
+            if (moving) {
+                this.onMotionStartEvent.invoke(event);
+            } else {
+                this.onMotionStopEvent.invoke(event);
+            }
+        }
+
+        // Copy so handlers can add or remove thresholds
+        const thresholds = this.thresholds.slice();
+        for (let i = 0; i < thresholds.length; i++) {
+            const watched = thresholds[i];
+            const value = readMotionSource(this, watched.source, watched.direction);
+            const above = value > watched.threshold;
+            const previous = watched.above;
+            watched.above = above;
+            if (previous === null || previous === above) {
+                continue;
+            }
+            this.onThresholdCrossedEvent.invoke({
+                name: watched.name,
+                source: watched.source,
+                value: value,
+                threshold: watched.threshold,
+                rising: above,
+                time: time
+            });
+        }
+    }
+
+    // Angular velocity/acceleration from the rotation since the last sample,
+    // and the orientation angles against the reference
+    private processRotation(time: number, rotation: quat): void {
+        if (this.previousRotation) {
+            // World-space rotation from the previous sample to this one
+            const delta = rotation.multiply(this.previousRotation.invert());
+            this.rotationSum = this.rotationSum.add(rotationVector(delta));
+        }
+        this.previousRotation = rotation;
+        this.angularMotion.update(time, this.rotationSum, this.angularFilterSettings());
+
+        let reference = this.referenceRotation;
+        if (this.orientationReference) {
+            reference = this.orientationReference.getTransform().getWorldRotation();
+        } else if (!reference) {
+            reference = rotation;
+            this.referenceRotation = rotation;
+        }
+        this.orientation = eulerAngles(reference.invert().multiply(rotation));
+
+        log.trace(() => "[CALC] Angular Velocity: " + this.angularMotion.velocity.toString());
+    }
+
+    // The filter mode and smoothing are shared with the position; the settings
+    // that depend on the size of the values have rotation-specific inputs
+    private angularFilterSettings(): MotionFilterSettings {
+        return {
+            filterMode: this.filterMode,
+            smoothingFactor: this.smoothingFactor,
+            oneEuroMinCutoff: this.oneEuroMinCutoff,
+            oneEuroBeta: this.angularOneEuroBeta,
+            kalmanProcessNoise: this.angularKalmanProcessNoise,
+            kalmanMeasurementNoise: this.angularKalmanMeasurementNoise
+        };
+    }
+
+    /**
+     * Measure roll/pitch/yaw from the target's current orientation from now on.
+     * Has no effect while an orientationReference object is set.
+     */
+    public resetOrientation(): void {
+        this.referenceRotation = this.previousRotation;
+        this.orientation = vec3.zero();
     }
 
     private logDebugInfo(): void {
-        const pos = this.targetObject.getTransform().getWorldPosition();
-        print("AccelerationCalculator: [DEBUG] === DETAILED DEBUG INFO ===");
-        print("AccelerationCalculator: [DEBUG] Position: (" + pos.x.toFixed(4) + ", " + pos.y.toFixed(4) + ", " + pos.z.toFixed(4) + ")");
-        print("AccelerationCalculator: [DEBUG] Raw Velocity: " + this.currentVelocity.toString());
-        print("AccelerationCalculator: [DEBUG] Smoothed Velocity: " + this.smoothedVelocity.toString());
-        print("AccelerationCalculator: [DEBUG] Velocity Magnitude: " + this.velocityMagnitude.toFixed(6) + " units/sec");
-        print("AccelerationCalculator: [DEBUG] Acceleration Vector: " + this.acceleration.toString());
-        print("AccelerationCalculator: [DEBUG] Acceleration Magnitude: " + this.accelerationMagnitude.toFixed(6) + " units/sec²");
-        print("AccelerationCalculator: [DEBUG] Is Moving (above threshold): " + this.isMoving);
-        print("AccelerationCalculator: [DEBUG] Velocity Threshold: " + this.velocityThreshold);
-        print("AccelerationCalculator: [DEBUG] === END DEBUG INFO ===");
+        // Last processed position, so this also works while replaying a trace
+        const pos = this.position;
+        log.debug("=== DETAILED DEBUG INFO ===");
+        log.debug("Position: (" + pos.x.toFixed(4) + ", " + pos.y.toFixed(4) + ", " + pos.z.toFixed(4) + ")");
+        log.debug("Raw Velocity: " + this.currentVelocity.toString());
+        log.debug("Smoothed Velocity: " + this.velocity.toString());
+        log.debug("Velocity Magnitude: " + this.velocityMagnitude.toFixed(6) + " units/sec");
+        log.debug("Acceleration Vector: " + this.accelerationVector.toString());
+        log.debug("Acceleration Magnitude: " + this.accelerationMagnitude.toFixed(6) + " units/sec²");
+        log.debug("Is Moving (above threshold): " + this.isMoving);
+        log.debug("Velocity Threshold: " + this.velocityThreshold);
+        log.debug("=== END DEBUG INFO ===");
     }
 
     /**
@@ -193,7 +512,7 @@ export class AccelerationCalculator extends BaseScriptComponent {
      */
     public getVelocityInDirection(direction: vec3): number {
         const normalizedDirection = direction.normalize();
-        return this.smoothedVelocity.dot(normalizedDirection);
+        return this.velocity.dot(normalizedDirection);
     }
 
     /**
@@ -203,22 +522,149 @@ export class AccelerationCalculator extends BaseScriptComponent {
      */
     public getAccelerationInDirection(direction: vec3): number {
         const normalizedDirection = direction.normalize();
-        return this.acceleration.dot(normalizedDirection);
+        return this.accelerationVector.dot(normalizedDirection);
+    }
+
+    /**
+     * Get the angular velocity around an axis (right-hand rule)
+     * @param axis Rotation axis in world space
+     * @returns Rotation speed around the axis in degrees/sec
+     */
+    public getAngularVelocityAround(axis: vec3): number {
+        return this.angularMotion.velocity.dot(axis.normalize());
+    }
+
+    /**
+     * Replay a recorded trace in place of the live target. Samples are fed at
+     * their recorded times, so the derived values match the recording.
+     * @param trace Recorded motion
+     * @param loop Restart from the beginning when the trace ends
+     */
+    public startReplay(trace: MotionTrace, loop: boolean = true): void {
+        if (trace.length === 0) {
+            log.warn("Cannot replay an empty trace");
+            return;
+        }
+        this.replayTrace = trace;
+        this.loopReplay = loop;
+        this.replayStartTime = getTime();
+        // Orientation is measured from the start of the trace
+        this.referenceRotation = null;
+        this.beginReplayPass(0);
+    }
+
+    /**
+     * Stop replaying and go back to the live target
+     */
+    public stopReplay(): void {
+        this.replayTrace = null;
+        this.reset();
+    }
+
+    /**
+     * Run a whole trace through the calculations immediately, without waiting
+     * for frames. Useful for comparing settings and for regression checks.
+     * @param trace Recorded motion
+     * @param onSample Called after each sample with its index
+     */
+    public processTrace(trace: MotionTrace, onSample?: (index: number) => void): void {
+        this.resetMotionState();
+        this.referenceRotation = null;
+        for (let i = 0; i < trace.length; i++) {
+            const sample = trace.getSample(i);
+            if (i === 0) {
+                this.previousTime = sample.time;
+                this.positionMotion.update(sample.time, sample.position, this);
+                this.processRotation(sample.time, sample.rotation);
+            } else {
+                this.processSample(sample.time, sample.position, sample.rotation);
+            }
+            if (onSample) {
+                onSample(i);
+            }
+        }
+    }
+
+    private beginReplayPass(timeOffset: number): void {
+        const trace = this.replayTrace as MotionTrace;
+        const first = trace.getSample(0);
+
+        this.resetMotionState();
+        this.replayTimeOffset = timeOffset;
+        this.previousTime = timeOffset + first.time;
+        this.positionMotion.update(this.previousTime, first.position, this);
+        this.processRotation(this.previousTime, first.rotation);
+        this.replayIndex = 1;
+    }
+
+    // Feed every trace sample whose time has come since the replay started
+    private advanceReplay(): void {
+        const trace = this.replayTrace as MotionTrace;
+        const elapsed = getTime() - this.replayStartTime;
+
+        while (true) {
+            if (this.replayIndex >= trace.length) {
+                if (!this.loopReplay) {
+                    return;
+                }
+                // Continue after the last sample with a one-frame gap
+                const frameGap = trace.length > 1 ? trace.getSample(1).time - trace.getSample(0).time : 1.0 / 60.0;
+                this.beginReplayPass(this.replayTimeOffset + trace.duration + frameGap);
+                continue;
+            }
+
+            const sample = trace.getSample(this.replayIndex);
+            if (this.replayTimeOffset + sample.time > elapsed) {
+                return;
+            }
+            this.processSample(this.replayTimeOffset + sample.time, sample.position, sample.rotation);
+            this.replayIndex++;
+        }
+    }
+
+    private resetMotionState(): void {
+        this.positionMotion.reset();
+        this.currentVelocity = vec3.zero();
+        this.previousRotation = null;
+        this.rotationSum = vec3.zero();
+        this.angularMotion.reset();
     }
 
     /**
      * Reset all motion calculations
      */
     public reset(): void {
-        this.previousPosition = null;
-        this.previousVelocity = vec3.zero();
-        this.currentVelocity = vec3.zero();
-        this.smoothedVelocity = vec3.zero();
-        this.acceleration = vec3.zero();
+        this.resetMotionState();
         this.previousTime = getTime();
-        
+
         if (this.targetObject) {
-            this.previousPosition = this.targetObject.getTransform().getWorldPosition();
+            const transform = this.targetObject.getTransform();
+            this.positionMotion.update(this.previousTime, transform.getWorldPosition(), this);
+            this.processRotation(this.previousTime, transform.getWorldRotation());
         }
     }
+}
+
+// Rotation vector of a quaternion in degrees: the rotation axis scaled by the
+// angle, taking the shorter way round
+function rotationVector(q: quat): vec3 {
+    const sign = q.w < 0 ? -1 : 1;
+    const w = Math.min(1, q.w * sign);
+    const angle = 2 * Math.acos(w);
+    const sinHalf = Math.sqrt(1 - w * w);
+    if (sinHalf < 1e-6) {
+        // Small angle: sin(angle/2) ~ angle/2, so the vector part is axis * angle/2
+        return new vec3(q.x, q.y, q.z).uniformScale(2 * sign * RADIANS_TO_DEGREES);
+    }
+    return new vec3(q.x, q.y, q.z).uniformScale(sign * angle / sinHalf * RADIANS_TO_DEGREES);
+}
+
+// Yaw (around Y), pitch (around X) then roll (around Z) of a rotation, in
+// degrees, returned as (pitch, yaw, roll)
+function eulerAngles(q: quat): vec3 {
+    const sinPitch = Math.max(-1, Math.min(1, 2 * (q.w * q.x - q.y * q.z)));
+    const pitch = Math.asin(sinPitch);
+    const yaw = Math.atan2(2 * (q.x * q.z + q.w * q.y), 1 - 2 * (q.x * q.x + q.y * q.y));
+    const roll = Math.atan2(2 * (q.x * q.y + q.w * q.z), 1 - 2 * (q.x * q.x + q.z * q.z));
+    return new vec3(pitch, yaw, roll).uniformScale(RADIANS_TO_DEGREES);
 }
\ No newline at end of file
@@ -4,10 +4,75 @@
  * Maps acceleration and velocity from AccelerationCalculator to playback rate 
  * changes in AudioController. Allows real-time control of audio pitch/speed
  * based on object movement with tunable parameters for optimal feel.
+ *
+ * Any motion source can drive the rate, including rotation (angular speed,
+ * roll/pitch/yaw), read in the units MotionSource gives them so the same
+ * thresholds and sensitivity cover them. Signed sources speed playback up
+ * for positive values and slow it down by the same factor for negative ones.
+ *
+ * Motion control runs through a small state machine with hysteresis:
+ * Idle -> Engaging once the motion passes the engage threshold, Active once
+ * the rate has caught up (or after the attack), Releasing after the motion has stayed below the
+ * (lower) release threshold for the hold time, and back to Idle at the base
+ * rate. Attack and release times set how fast the rate follows each way.
  */
 
 import { AccelerationCalculator } from "./AccelerationCalculator";
-import { AudioController } from "./AudioController";
+import { AudioController, BeatEvent } from "./AudioController";
+import { Event, PublicApi } from "./Event";
+import { LogLevel, Logger, setCategoryLevel } from "./Logger";
+import { approachScalar } from "./MotionFilter";
+import { MotionSource, readMotionSource } from "./MotionSource";
+import { MusicalScale, QuantizeMode, quantizeRate } from "./PitchQuantizer";
+import { CurveType, ResponseCurve } from "./ResponseCurve";
+
+const log = new Logger("AccelerationToRate");
+
+// How close the rate has to get to its target to count as arrived
+const RATE_SETTLE_TOLERANCE = 0.005;
+// Engaging turns Active after this many attack times (~95% of the way) even
+// if the target kept moving
+const ATTACK_SETTLE_TIME_CONSTANTS = 3;
+
+export enum RateTarget {
+    Rate = 0,
+    Tempo = 1,
+    Pitch = 2
+}
+
+export enum RateChangeMode {
+    Immediate = 0,
+    OnBeat = 1,
+    OnBar = 2,
+    Glide = 3
+}
+
+export enum MotionState {
+    // No motion: the rate rests at the base rate
+    Idle = 0,
+    // Motion passed the engage threshold; the rate is moving towards its target
+    Engaging = 1,
+    // The rate follows the motion
+    Active = 2,
+    // Motion stopped; the rate is returning to the base rate
+    Releasing = 3
+}
+
+export type RateChangeEvent = {
+    // Rate sent to the AudioController (after quantization and beat sync)
+    rate: number;
+    previousRate: number;
+    // Whether the rate went to rate, tempo or pitch
+    rateTarget: RateTarget;
+};
+
+export type MotionStateEvent = {
+    state: MotionState;
+    // Motion source value when the state changed
+    motion: number;
+    // Rate before quantization and beat sync
+    rate: number;
+};
 
 @component
 export class AccelerationToRate extends BaseScriptComponent {
@@ -16,16 +81,54 @@ export class AccelerationToRate extends BaseScriptComponent {
     accelerationCalculator: AccelerationCalculator;
 
     @input
-    @hint("AudioController component to modify rate on")
+    @hint("AudioController component to modify rate, tempo or pitch on")
     audioController: AudioController;
 
+    @input
+    @hint("What the motion drives: rate (speed and pitch), tempo only, or pitch only")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Rate (speed + pitch)", RateTarget.Rate),
+        new ComboBoxItem("Tempo (keep pitch)", RateTarget.Tempo),
+        new ComboBoxItem("Pitch (keep tempo)", RateTarget.Pitch)
+    ]))
+    rateTarget: number = RateTarget.Rate;
+
     @input
     @hint("Base playback rate when not moving")
     @widget(new SliderWidget(0.1, 3.0, 1.0))
     baseRate: number = 1.0;
 
     @input
-    @hint("Use velocity instead of acceleration for rate control")
+    @hint("Motion signal that drives the rate")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Velocity Magnitude", MotionSource.VelocityMagnitude),
+        new ComboBoxItem("Acceleration Magnitude", MotionSource.AccelerationMagnitude),
+        new ComboBoxItem("Velocity X", MotionSource.VelocityX),
+        new ComboBoxItem("Velocity Y", MotionSource.VelocityY),
+        new ComboBoxItem("Velocity Z", MotionSource.VelocityZ),
+        new ComboBoxItem("Acceleration X", MotionSource.AccelerationX),
+        new ComboBoxItem("Acceleration Y", MotionSource.AccelerationY),
+        new ComboBoxItem("Acceleration Z", MotionSource.AccelerationZ),
+        new ComboBoxItem("Velocity In Direction", MotionSource.VelocityInDirection),
+        new ComboBoxItem("Acceleration In Direction", MotionSource.AccelerationInDirection),
+        new ComboBoxItem("Angular Speed", MotionSource.AngularSpeed),
+        new ComboBoxItem("Angular Acceleration Magnitude", MotionSource.AngularAccelerationMagnitude),
+        new ComboBoxItem("Angular Velocity X", MotionSource.AngularVelocityX),
+        new ComboBoxItem("Angular Velocity Y", MotionSource.AngularVelocityY),
+        new ComboBoxItem("Angular Velocity Z", MotionSource.AngularVelocityZ),
+        new ComboBoxItem("Angular Velocity Around Direction", MotionSource.AngularVelocityInDirection),
+        new ComboBoxItem("Roll", MotionSource.Roll),
+        new ComboBoxItem("Pitch", MotionSource.Pitch),
+        new ComboBoxItem("Yaw", MotionSource.Yaw)
+    ]))
+    motionSource: number = MotionSource.VelocityMagnitude;
+
+    @input
+    @hint("Direction for the 'In Direction' sources, or the rotation axis for 'Angular Velocity Around Direction'")
+    direction: vec3 = new vec3(0, 1, 0);
+
+    @input
+    @hint("With the Velocity Magnitude source: use velocity (off = acceleration magnitude, as before motion sources existed)")
     useVelocity: boolean = true;
 
     @input
@@ -44,110 +147,432 @@ export class AccelerationToRate extends BaseScriptComponent {
     maxRate: number = 3.0;
 
     @input
-    @hint("Smoothing factor for rate changes (0 = instant, 0.9 = very smooth)")
-    @widget(new SliderWidget(0.0, 0.95, 0.7))
-    smoothing: number = 0.7;
+    @hint("Seconds the rate takes to follow the motion (time constant, 0 = instant)")
+    @widget(new SliderWidget(0.0, 2.0, 0.01))
+    attackTime: number = 0.05;
 
     @input
-    @hint("Motion threshold - minimum motion to trigger rate changes")
+    @hint("Seconds the rate takes to return to the base rate once released (time constant, 0 = instant)")
+    @widget(new SliderWidget(0.0, 2.0, 0.01))
+    releaseTime: number = 0.05;
+
+    @input
+    @hint("Engage threshold - motion needed to start rate changes")
     @widget(new SliderWidget(0.0, 1.0, 0.05))
     motionThreshold: number = 0.05;
 
     @input
-    @hint("Enable debug logging")
+    @hint("Release threshold - motion below this (for the hold time) ends rate changes. Keep below the engage threshold to avoid flicker")
+    @widget(new SliderWidget(0.0, 1.0, 0.05))
+    releaseThreshold: number = 0.03;
+
+    @input
+    @hint("Seconds the motion must stay below the release threshold before releasing")
+    @widget(new SliderWidget(0.0, 2.0, 0.05))
+    holdTime: number = 0.1;
+
+    @input
+    @hint("Shape of the motion-to-rate mapping between base rate and max rate")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Linear", CurveType.Linear),
+        new ComboBoxItem("Exponential", CurveType.Exponential),
+        new ComboBoxItem("Logarithmic", CurveType.Logarithmic),
+        new ComboBoxItem("S-Curve", CurveType.SCurve),
+        new ComboBoxItem("Piecewise (control points)", CurveType.Piecewise)
+    ]))
+    responseCurve: number = CurveType.Linear;
+
+    @input
+    @hint("Curve steepness for exponential, logarithmic and S-curve")
+    @widget(new SliderWidget(0.1, 10.0, 0.1))
+    curveAmount: number = 3.0;
+
+    @input
+    @hint("Piecewise control points as x:y pairs in 0..1, e.g. 0:0, 0.5:0.2, 1:1")
+    curvePoints: string = "0:0, 0.5:0.2, 1:1";
+
+    @input
+    @hint("Snap the output rate to semitones or to a musical scale")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Off", QuantizeMode.Off),
+        new ComboBoxItem("Semitones", QuantizeMode.Semitone),
+        new ComboBoxItem("Scale", QuantizeMode.Scale)
+    ]))
+    quantizeMode: number = QuantizeMode.Off;
+
+    @input
+    @hint("Scale used when quantizing to a scale")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Major", MusicalScale.Major),
+        new ComboBoxItem("Natural Minor", MusicalScale.NaturalMinor),
+        new ComboBoxItem("Major Pentatonic", MusicalScale.MajorPentatonic),
+        new ComboBoxItem("Minor Pentatonic", MusicalScale.MinorPentatonic),
+        new ComboBoxItem("Blues", MusicalScale.Blues),
+        new ComboBoxItem("Dorian", MusicalScale.Dorian)
+    ]))
+    scale: number = MusicalScale.Major;
+
+    @input
+    @hint("Scale root in semitones relative to the track's original pitch")
+    @widget(new SliderWidget(-11, 11, 1))
+    scaleRoot: number = 0;
+
+    @input
+    @hint("When rate changes are heard: immediately, on the next beat or bar, or as a glide starting on each beat")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Immediate", RateChangeMode.Immediate),
+        new ComboBoxItem("On Beat", RateChangeMode.OnBeat),
+        new ComboBoxItem("On Bar", RateChangeMode.OnBar),
+        new ComboBoxItem("Glide (beats)", RateChangeMode.Glide)
+    ]))
+    rateChangeMode: number = RateChangeMode.Immediate;
+
+    @input
+    @hint("Number of beats a glide takes")
+    @widget(new SliderWidget(0.25, 8.0, 0.25))
+    glideBeats: number = 1.0;
+
+    @input
+    @hint("Log debug output for this component (raises its log level to Debug)")
     enableDebugLogging: boolean = false;
 
+    private onEngageEvent = new Event<MotionStateEvent>();
+    private onReleaseEvent = new Event<MotionStateEvent>();
+    private onRateChangedEvent = new Event<RateChangeEvent>();
+
+    /**
+     * Motion started driving the rate (Idle or Releasing -> Engaging)
+     */
+    public readonly onEngage: PublicApi<MotionStateEvent> = this.onEngageEvent.publicApi();
+
+    /**
+     * Motion stopped and the rate starts returning to the base rate
+     */
+    public readonly onRelease: PublicApi<MotionStateEvent> = this.onReleaseEvent.publicApi();
+
+    /**
+     * Fires whenever the rate sent to the AudioController changes
+     */
+    public readonly onRateChanged: PublicApi<RateChangeEvent> = this.onRateChangedEvent.publicApi();
+
     // Private variables for rate calculation
     private currentRate: number = 1.0;
     private targetRate: number = 1.0;
+    private appliedRate: number = 1.0;
+    // Last rate sent to the AudioController, for onRateChanged
+    private sentRate: number = 1.0;
+    private curve: ResponseCurve = new ResponseCurve();
+
+    // Hysteresis state machine
+    private motionState: MotionState = MotionState.Idle;
+    // Seconds spent in the current state
+    private stateTime: number = 0;
+    // Seconds the motion has been below the release threshold
+    private belowReleaseTime: number = 0;
+
+    // Beat-synced changes: set by the AudioController beat/bar events
+    private beatPending: boolean = false;
+    private barPending: boolean = false;
+    private glideFrom: number = 1.0;
+    private glideTo: number = 1.0;
+    private glideProgress: number = 1.0;
+    private warnedNoTempo: boolean = false;
 
     onAwake(): void {
+        if (this.enableDebugLogging) {
+            setCategoryLevel(log.category, LogLevel.Debug);
+        }
+
         if (!this.accelerationCalculator) {
-            print("AccelerationToRate: ERROR - No AccelerationCalculator specified!");
+            log.error("No AccelerationCalculator specified!");
             return;
         }
 
         if (!this.audioController) {
-            print("AccelerationToRate: ERROR - No AudioController specified!");
+            log.error("No AudioController specified!");
             return;
         }
 
-        print("AccelerationToRate: Initializing...");
+        log.debug("Initializing...");
+
+        this.curve.type = this.responseCurve;
+        this.curve.amount = this.curveAmount;
+        const hasCurvePoints = this.curve.setControlPointsFromString(this.curvePoints);
+        if (this.responseCurve === CurveType.Piecewise && !hasCurvePoints) {
+            log.warn("No valid curve points in \"" + this.curvePoints + "\", using linear");
+        }
         
         // Initialize rates
         this.currentRate = this.baseRate;
         this.targetRate = this.baseRate;
-        this.audioController.rate = this.baseRate;
+        this.appliedRate = this.baseRate;
+        this.glideFrom = this.baseRate;
+        this.glideTo = this.baseRate;
+        this.applyRate(this.baseRate);
+
+        // Beat events arrive after the audio renders, so boundaries are applied
+        // on the next update (one frame later)
+        this.audioController.onBeat.add((beat: BeatEvent) => {
+            if (beat.deckIndex === this.audioController.activeDeckIndex) {
+                this.beatPending = true;
+            }
+        });
+        this.audioController.onBar.add((beat: BeatEvent) => {
+            if (beat.deckIndex === this.audioController.activeDeckIndex) {
+                this.barPending = true;
+            }
+        });
 
         // Bind update event for real-time rate control
         this.createEvent("UpdateEvent").bind(() => {
             this.updateRate();
         });
 
-        print("AccelerationToRate: Initialization complete");
-        print("AccelerationToRate: Using " + (this.useVelocity ? "velocity" : "acceleration") + " for rate control");
-        print("AccelerationToRate: Sensitivity: " + this.sensitivity);
-        print("AccelerationToRate: Rate range: " + this.minRate + " to " + this.maxRate);
+        log.info("Initialization complete");
+        log.debug("Using " + MotionSource[this.getMotionSource()] + " for rate control");
+        log.debug("Sensitivity: " + this.sensitivity);
+        log.debug("Rate range: " + this.minRate + " to " + this.maxRate);
+        if (this.releaseThreshold > this.motionThreshold) {
+            log.warn("Release threshold is above the engage threshold, the rate may flicker");
+        }
+    }
+
+    /**
+     * Current state of the motion response
+     */
+    public get state(): MotionState {
+        return this.motionState;
+    }
+
+    /**
+     * True while motion drives the rate (Engaging or Active)
+     */
+    public get isEngaged(): boolean {
+        return this.motionState === MotionState.Engaging || this.motionState === MotionState.Active;
     }
 
     private updateRate(): void {
         // Get motion data from AccelerationCalculator
-        const motionMagnitude = this.useVelocity ? 
-            this.accelerationCalculator.velocityMagnitude : 
-            this.accelerationCalculator.accelerationMagnitude;
+        const motion = this.readMotion();
+        const deltaTime = getDeltaTime();
+        this.updateState(motion, deltaTime);
 
-        // Check if motion is above threshold
-        if (motionMagnitude < this.motionThreshold) {
+        // Apply attack/release smoothing to rate changes
+        this.currentRate = this.applySmoothingToRate(this.currentRate, this.targetRate, deltaTime);
+
+        // Clamp rate to valid range
+        this.currentRate = Math.max(this.minRate, Math.min(this.maxRate, this.currentRate));
+
+        // Snap to notes inside the range if enabled, keep the change in time
+        // with the music, then apply rate to AudioController
+        const quantizedRate = quantizeRate(this.currentRate, this.quantizeMode, this.scale, this.scaleRoot, this.minRate, this.maxRate);
+        this.appliedRate = this.syncToBeat(quantizedRate);
+        this.applyRate(this.appliedRate);
+
+        // Debug logging
+        if (log.isEnabled(LogLevel.Debug)) {
+            this.logDebugInfo(motion);
+        }
+    }
+
+    /**
+     * Current value of the motion source that drives the rate
+     */
+    public readMotion(): number {
+        return readMotionSource(this.accelerationCalculator, this.getMotionSource(), this.direction);
+    }
+
+    // The selected source, with the acceleration fallback of useVelocity
+    private getMotionSource(): MotionSource {
+        if (this.motionSource === MotionSource.VelocityMagnitude && !this.useVelocity) {
+            return MotionSource.AccelerationMagnitude;
+        }
+        return this.motionSource;
+    }
+
+    // Advance the hysteresis state machine and pick the target rate
+    private updateState(motion: number, deltaTime: number): void {
+        const motionMagnitude = Math.abs(motion);
+        this.stateTime += deltaTime;
+
+        switch (this.motionState) {
+            case MotionState.Idle:
+            case MotionState.Releasing:
+                if (motionMagnitude >= this.motionThreshold) {
+                    this.setState(MotionState.Engaging, motion);
+                } else if (this.motionState === MotionState.Releasing &&
+                    Math.abs(this.currentRate - this.baseRate) <= RATE_SETTLE_TOLERANCE) {
+                    this.setState(MotionState.Idle, motion);
+                }
+                break;
+            default:
+                this.belowReleaseTime = motionMagnitude < this.releaseThreshold ? this.belowReleaseTime + deltaTime : 0;
+                if (this.belowReleaseTime >= this.holdTime && motionMagnitude < this.releaseThreshold) {
+                    this.setState(MotionState.Releasing, motion);
+                }
+                break;
+        }
+
+        if (!this.isEngaged) {
             // Not enough motion - return to base rate
             this.targetRate = this.baseRate;
-        } else {
-            // Calculate target rate based on motion
-            this.targetRate = this.calculateTargetRate(motionMagnitude);
+            return;
         }
 
-        // Apply smoothing to rate changes
-        this.currentRate = this.applySmoothingToRate(this.currentRate, this.targetRate);
+        // While holding below the release threshold keep the last target
+        if (this.belowReleaseTime === 0) {
+            this.targetRate = this.motionToRate(motion);
+        }
+        const attackDone = this.stateTime >= this.attackTime * ATTACK_SETTLE_TIME_CONSTANTS;
+        if (this.motionState === MotionState.Engaging &&
+            (attackDone || Math.abs(this.currentRate - this.targetRate) <= RATE_SETTLE_TOLERANCE)) {
+            this.setState(MotionState.Active, motion);
+        }
+    }
 
-        // Clamp rate to valid range
-        this.currentRate = Math.max(this.minRate, Math.min(this.maxRate, this.currentRate));
+    private setState(state: MotionState, motion: number): void {
+        const previous = this.motionState;
+        this.motionState = state;
+        this.stateTime = 0;
+        this.belowReleaseTime = 0;
+        log.debug("State: " + MotionState[previous] + " -> " + MotionState[state]);
 
-        // Apply rate to AudioController
-        this.audioController.rate = this.currentRate;
+        const event: MotionStateEvent = { state: state, motion: motion, rate: this.currentRate };
+        if (state === MotionState.Engaging) {
+            this.onEngageEvent.invoke(event);
+        } else if (state === MotionState.Releasing) {
+            this.onReleaseEvent.invoke(event);
+        }
+    }
 
-        // Debug logging
-        if (this.enableDebugLogging) {
-            this.logDebugInfo(motionMagnitude);
+    private motionToRate(motion: number): number {
+        if (motion < 0) {
+            // Negative values slow down by the factor the same positive value speeds up by
+            return this.baseRate * this.baseRate / this.calculateTargetRate(-motion);
         }
+        return this.calculateTargetRate(motion);
+    }
+
+    // Hold or glide rate changes so they land on beat or bar boundaries
+    private syncToBeat(rate: number): number {
+        const onBeat = this.beatPending;
+        const onBar = this.barPending;
+        this.beatPending = false;
+        this.barPending = false;
+
+        if (this.rateChangeMode === RateChangeMode.Immediate) {
+            return rate;
+        }
+
+        const bpm = this.audioController.getBpm(this.audioController.activeDeckIndex);
+        if (bpm <= 0) {
+            if (!this.warnedNoTempo) {
+                log.warn("Track tempo unknown, applying rate changes immediately");
+                this.warnedNoTempo = true;
+            }
+            return rate;
+        }
+
+        switch (this.rateChangeMode) {
+            case RateChangeMode.OnBeat:
+                return onBeat ? rate : this.appliedRate;
+            case RateChangeMode.OnBar:
+                return onBar ? rate : this.appliedRate;
+            default:
+                return this.glide(rate, onBeat, bpm);
+        }
+    }
+
+    // Start a glide towards the latest rate on each beat and advance it by
+    // the beats played since the last frame
+    private glide(rate: number, onBeat: boolean, bpm: number): number {
+        if (onBeat && rate !== this.glideTo) {
+            this.glideFrom = this.appliedRate;
+            this.glideTo = rate;
+            this.glideProgress = 0.0;
+        }
+        if (this.glideProgress >= 1.0) {
+            return this.glideTo;
+        }
+
+        const beatsThisFrame = getDeltaTime() * bpm / 60.0;
+        this.glideProgress = this.glideBeats > 0 ?
+            Math.min(1.0, this.glideProgress + beatsThisFrame / this.glideBeats) : 1.0;
+        return this.glideFrom + (this.glideTo - this.glideFrom) * this.glideProgress;
     }
 
     private calculateTargetRate(motionMagnitude: number): number {
         // Map motion magnitude to rate change
         // Higher motion = higher rate (faster playback)
-        const rateMultiplier = 1.0 + (motionMagnitude * this.sensitivity);
+        const headroom = this.maxRate / this.baseRate - 1.0;
+        if (headroom <= 0) {
+            return this.baseRate * (1.0 + motionMagnitude * this.sensitivity);
+        }
+
+        // Normalise so the curve spans base rate (0) to max rate (1);
+        // the linear curve gives the same result as baseRate * (1 + motion * sensitivity)
+        const normalized = (motionMagnitude * this.sensitivity) / headroom;
+        const rateMultiplier = 1.0 + this.curve.evaluate(normalized) * headroom;
         const targetRate = this.baseRate * rateMultiplier;
 
         return targetRate;
     }
 
-    private applySmoothingToRate(currentRate: number, targetRate: number): number {
-        // Exponential moving average for smooth rate transitions
-        const alpha = this.smoothing;
-        const oneMinusAlpha = 1.0 - alpha;
-        
-        return oneMinusAlpha * targetRate + alpha * currentRate;
+    private applyRate(value: number): void {
+        // setEnabled and resetRate can be called before onAwake has checked the inputs
+        if (!this.audioController) {
+            return;
+        }
+        switch (this.rateTarget) {
+            case RateTarget.Tempo:
+                this.audioController.tempo = value;
+                break;
+            case RateTarget.Pitch:
+                this.audioController.pitch = value;
+                break;
+            default:
+                this.audioController.rate = value;
+                break;
+        }
+
+        if (value !== this.sentRate) {
+            const previousRate = this.sentRate;
+            this.sentRate = value;
+            this.onRateChangedEvent.invoke({ rate: value, previousRate: previousRate, rateTarget: this.rateTarget });
+        }
+    }
+
+    private getAppliedRate(): number {
+        switch (this.rateTarget) {
+            case RateTarget.Tempo:
+                return this.audioController.tempo;
+            case RateTarget.Pitch:
+                return this.audioController.pitch;
+            default:
+                return this.audioController.rate;
+        }
+    }
+
+    private applySmoothingToRate(currentRate: number, targetRate: number, deltaTime: number): number {
+        // Exponential approach for smooth rate transitions, in seconds so the
+        // feel doesn't change with frame rate: attack while motion drives the
+        // rate, release on the way back to the base rate
+        const time = this.isEngaged ? this.attackTime : this.releaseTime;
+        return approachScalar(currentRate, targetRate, time, deltaTime);
     }
 
-    private logDebugInfo(motionMagnitude: number): void {
-        print("AccelerationToRate: [DEBUG] === RATE CONTROL DEBUG ===");
-        print("AccelerationToRate: [DEBUG] Motion Magnitude: " + motionMagnitude.toFixed(6));
-        print("AccelerationToRate: [DEBUG] Motion Type: " + (this.useVelocity ? "velocity" : "acceleration"));
-        print("AccelerationToRate: [DEBUG] Above Threshold: " + (motionMagnitude >= this.motionThreshold));
-        print("AccelerationToRate: [DEBUG] Target Rate: " + this.targetRate.toFixed(4));
-        print("AccelerationToRate: [DEBUG] Current Rate: " + this.currentRate.toFixed(4));
-        print("AccelerationToRate: [DEBUG] Applied Rate: " + this.audioController.rate.toFixed(4));
-        print("AccelerationToRate: [DEBUG] Base Rate: " + this.baseRate);
-        print("AccelerationToRate: [DEBUG] Sensitivity: " + this.sensitivity);
-        print("AccelerationToRate: [DEBUG] === END DEBUG ===");
+    private logDebugInfo(motion: number): void {
+        log.debug("=== RATE CONTROL DEBUG ===");
+        log.debug("Motion Value: " + motion.toFixed(6));
+        log.debug("Motion Source: " + MotionSource[this.getMotionSource()]);
+        log.debug("State: " + MotionState[this.motionState]);
+        log.debug("Target Rate: " + this.targetRate.toFixed(4));
+        log.debug("Current Rate: " + this.currentRate.toFixed(4));
+        log.debug("Beat-Synced Rate: " + this.appliedRate.toFixed(4) + " (" + RateChangeMode[this.rateChangeMode] + ")");
+        log.debug("Applied Rate: " + this.getAppliedRate().toFixed(4));
+        log.debug("Base Rate: " + this.baseRate);
+        log.debug("Sensitivity: " + this.sensitivity);
+        log.debug("=== END DEBUG ===");
     }
 
     /**
@@ -156,8 +581,16 @@ export class AccelerationToRate extends BaseScriptComponent {
     public resetRate(): void {
         this.currentRate = this.baseRate;
         this.targetRate = this.baseRate;
-        this.audioController.rate = this.baseRate;
-        print("AccelerationToRate: Rate reset to base: " + this.baseRate);
+        this.appliedRate = this.baseRate;
+        this.glideFrom = this.baseRate;
+        this.glideTo = this.baseRate;
+        this.glideProgress = 1.0;
+        if (this.isEngaged) {
+            this.setState(MotionState.Releasing, 0);
+        }
+        this.motionState = MotionState.Idle;
+        this.applyRate(this.baseRate);
+        log.info("Rate reset to base: " + this.baseRate);
     }
 
     /**
@@ -168,14 +601,35 @@ export class AccelerationToRate extends BaseScriptComponent {
             this.resetRate();
         }
         this.enabled = enabled;
-        print("AccelerationToRate: Motion control " + (enabled ? "enabled" : "disabled"));
+        log.info("Motion control " + (enabled ? "enabled" : "disabled"));
     }
 
     /**
-     * Get current rate being applied
+     * Get current rate being applied (after quantization)
      */
     public getCurrentRate(): number {
-        return this.currentRate;
+        return this.appliedRate;
+    }
+
+    /**
+     * Set the mapping curve from script
+     * @param type Curve shape
+     * @param amount Steepness for exponential, logarithmic and S-curve
+     */
+    public setResponseCurve(type: CurveType, amount: number = this.curveAmount): void {
+        this.responseCurve = type;
+        this.curveAmount = amount;
+        this.curve.type = type;
+        this.curve.amount = amount;
+    }
+
+    /**
+     * Set piecewise control points, e.g. "0:0, 0.5:0.2, 1:1"
+     * @returns false if no valid point was found
+     */
+    public setCurvePoints(points: string): boolean {
+        this.curvePoints = points;
+        return this.curve.setControlPointsFromString(points);
     }
 
     /**
@@ -0,0 +1,332 @@
+/**
+ * AudioAnalyzer.ts
+ *
+ * Real-time analysis of the mixed output for driving visuals: RMS and peak
+ * meters, an FFT spectrum grouped into named frequency bands, and onset
+ * detection from the spectral flux (how much the spectrum grew since the
+ * last analysis) against an adaptive threshold.
+ *
+ * AudioController feeds it every rendered block; the spectrum is taken over
+ * the most recent fftSize samples once per block.
+ */
+
+import { Event, PublicApi } from "./Event";
+
+export const DEFAULT_ANALYSIS_BANDS = "bass:20-250, mid:250-4000, high:4000-16000";
+
+// Peak meter fall time in seconds
+const PEAK_RELEASE_TIME = 0.3;
+// Averaging time of the flux the onset threshold is based on
+const FLUX_AVERAGE_TIME = 1.0;
+// The Hann window spreads a sine over neighbouring bins with 1.5x its energy
+const HANN_ENERGY_SPREAD = 1.5;
+
+export type AnalysisBand = {
+    name: string;
+    // Frequency range in Hz
+    low: number;
+    high: number;
+};
+
+export type OnsetEvent = {
+    // Spectral flux relative to the adaptive threshold (> 1)
+    strength: number;
+    // Output time of the analyzed block in seconds
+    time: number;
+};
+
+/**
+ * Parse bands written as name:low-high pairs in Hz, e.g.
+ * "bass:20-250, mid:250-4000, high:4000-16000". Invalid entries are skipped.
+ */
+export function parseAnalysisBands(text: string): AnalysisBand[] {
+    const bands: AnalysisBand[] = [];
+    const entries = text.split(",");
+    for (let i = 0; i < entries.length; i++) {
+        const match = entries[i].trim().match(/^([^:]+):\s*([\d.]+)\s*-\s*([\d.]+)$/);
+        if (!match) {
+            continue;
+        }
+        const low = parseFloat(match[2]);
+        const high = parseFloat(match[3]);
+        if (isFinite(low) && isFinite(high) && high > low) {
+            bands.push({ name: match[1].trim(), low: low, high: high });
+        }
+    }
+    return bands;
+}
+
+export class AudioAnalyzer {
+    public readonly sampleRate: number;
+    public readonly fftSize: number;
+
+    // Flux above this multiple of its running average counts as an onset
+    public onsetSensitivity: number = 1.5;
+    // Minimum seconds between onsets
+    public onsetCooldown: number = 0.1;
+
+    private onOnsetEvent = new Event<OnsetEvent>();
+
+    /**
+     * Fires when an onset (note, hit) is detected in the output
+     */
+    public readonly onOnset: PublicApi<OnsetEvent> = this.onOnsetEvent.publicApi();
+
+    // Most recent mono samples, written circularly
+    private history: Float32Array;
+    private historyIndex: number = 0;
+
+    // FFT buffers and tables
+    private window: Float64Array;
+    private windowGain: number = 0;
+    private real: Float64Array;
+    private imaginary: Float64Array;
+    private bitReverse: Uint32Array;
+    private cosTable: Float64Array;
+    private sinTable: Float64Array;
+    private magnitudes: Float32Array;
+    private previousMagnitudes: Float32Array;
+
+    private bands: AnalysisBand[] = [];
+    private bandLevels: number[] = [];
+
+    // Meters for the last block
+    private rmsLevel: number = 0;
+    private peakHold: number = 0;
+
+    // Onset detection
+    private flux: number = 0;
+    private averageFlux: number = 0;
+    private lastOnsetTime: number = -Infinity;
+    private onsetThisBlock: boolean = false;
+    private samplesProcessed: number = 0;
+
+    /**
+     * @param sampleRate Output sample rate
+     * @param fftSize Spectrum size, rounded up to a power of two
+     * @param bands Frequency bands to group the spectrum into
+     */
+    constructor(sampleRate: number, fftSize: number = 1024, bands: AnalysisBand[] = parseAnalysisBands(DEFAULT_ANALYSIS_BANDS)) {
+        this.sampleRate = sampleRate;
+        let size = 2;
+        while (size < fftSize) {
+            size *= 2;
+        }
+        this.fftSize = size;
+
+        this.history = new Float32Array(size);
+        this.real = new Float64Array(size);
+        this.imaginary = new Float64Array(size);
+        this.magnitudes = new Float32Array(size / 2 + 1);
+        this.previousMagnitudes = new Float32Array(size / 2 + 1);
+
+        // Hann window
+        this.window = new Float64Array(size);
+        for (let i = 0; i < size; i++) {
+            this.window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / size);
+            this.windowGain += this.window[i];
+        }
+
+        const bits = Math.round(Math.log(size) / Math.LN2);
+        this.bitReverse = new Uint32Array(size);
+        for (let i = 0; i < size; i++) {
+            let reversed = 0;
+            for (let b = 0; b < bits; b++) {
+                reversed = (reversed << 1) | ((i >> b) & 1);
+            }
+            this.bitReverse[i] = reversed;
+        }
+
+        this.cosTable = new Float64Array(size / 2);
+        this.sinTable = new Float64Array(size / 2);
+        for (let i = 0; i < size / 2; i++) {
+            this.cosTable[i] = Math.cos(-2 * Math.PI * i / size);
+            this.sinTable[i] = Math.sin(-2 * Math.PI * i / size);
+        }
+
+        this.setBands(bands);
+    }
+
+    /**
+     * RMS level of the last block (linear, 0..1 for full scale)
+     */
+    public get rms(): number {
+        return this.rmsLevel;
+    }
+
+    /**
+     * Peak level with a falling hold (linear)
+     */
+    public get peak(): number {
+        return this.peakHold;
+    }
+
+    /**
+     * Onset strength of the last block: spectral flux relative to the
+     * threshold (above 1 means an onset)
+     */
+    public get onsetStrength(): number {
+        const threshold = this.averageFlux * this.onsetSensitivity;
+        return threshold > 0 ? this.flux / threshold : 0;
+    }
+
+    /**
+     * Whether an onset was detected in the last block
+     */
+    public get isOnset(): boolean {
+        return this.onsetThisBlock;
+    }
+
+    /**
+     * Amplitude spectrum of the last analysis, fftSize / 2 + 1 bins from 0 Hz
+     * to half the sample rate. Overwritten by the next block.
+     */
+    public get spectrum(): Float32Array {
+        return this.magnitudes;
+    }
+
+    public get bandCount(): number {
+        return this.bands.length;
+    }
+
+    public getBandNames(): string[] {
+        return this.bands.map((band) => band.name);
+    }
+
+    public setBands(bands: AnalysisBand[]): void {
+        this.bands = bands.slice();
+        this.bandLevels = this.bands.map(() => 0);
+    }
+
+    /**
+     * Level of a band (amplitude, about 0..1), by name or index. 0 if there is no such band.
+     */
+    public getBand(band: string | number): number {
+        const index = typeof band === "number" ? band : this.bands.findIndex((b) => b.name === band);
+        return index >= 0 && index < this.bandLevels.length ? this.bandLevels[index] : 0;
+    }
+
+    /**
+     * Analyze a block of stereo output
+     */
+    public process(left: Float32Array, right: Float32Array, count: number): void {
+        if (count <= 0) {
+            return;
+        }
+
+        let sumSquares = 0;
+        let peak = 0;
+        for (let i = 0; i < count; i++) {
+            const l = left[i];
+            const r = right[i];
+            sumSquares += 0.5 * (l * l + r * r);
+            peak = Math.max(peak, Math.abs(l), Math.abs(r));
+            this.history[this.historyIndex] = 0.5 * (l + r);
+            this.historyIndex = (this.historyIndex + 1) % this.fftSize;
+        }
+        this.samplesProcessed += count;
+        const blockSeconds = count / this.sampleRate;
+
+        this.rmsLevel = Math.sqrt(sumSquares / count);
+        const fall = Math.exp(-blockSeconds / PEAK_RELEASE_TIME);
+        this.peakHold = Math.max(peak, this.peakHold * fall);
+
+        this.computeSpectrum();
+        this.updateBands();
+        this.detectOnset(blockSeconds);
+    }
+
+    public reset(): void {
+        this.history.fill(0);
+        this.historyIndex = 0;
+        this.magnitudes.fill(0);
+        this.previousMagnitudes.fill(0);
+        this.bandLevels = this.bands.map(() => 0);
+        this.rmsLevel = 0;
+        this.peakHold = 0;
+        this.flux = 0;
+        this.averageFlux = 0;
+        this.lastOnsetTime = -Infinity;
+        this.onsetThisBlock = false;
+    }
+
+    // Windowed FFT of the sample history, oldest sample first
+    private computeSpectrum(): void {
+        const size = this.fftSize;
+        for (let i = 0; i < size; i++) {
+            const sample = this.history[(this.historyIndex + i) % size];
+            const j = this.bitReverse[i];
+            this.real[j] = sample * this.window[i];
+            this.imaginary[j] = 0;
+        }
+        fft(this.real, this.imaginary, this.cosTable, this.sinTable);
+
+        this.previousMagnitudes.set(this.magnitudes);
+        // Scaled so a full-scale sine reads about 1 in its bin
+        const scale = 2 / this.windowGain;
+        for (let k = 0; k < this.magnitudes.length; k++) {
+            this.magnitudes[k] = Math.sqrt(this.real[k] * this.real[k] + this.imaginary[k] * this.imaginary[k]) * scale;
+        }
+    }
+
+    // Combined amplitude of the bins in each band; a sine of amplitude A in
+    // the band reads A
+    private updateBands(): void {
+        const binWidth = this.sampleRate / this.fftSize;
+        for (let b = 0; b < this.bands.length; b++) {
+            const band = this.bands[b];
+            const first = Math.max(1, Math.ceil(band.low / binWidth));
+            const last = Math.min(this.magnitudes.length - 1, Math.floor(band.high / binWidth));
+            let energy = 0;
+            for (let k = first; k <= last; k++) {
+                energy += this.magnitudes[k] * this.magnitudes[k];
+            }
+            this.bandLevels[b] = Math.sqrt(energy / HANN_ENERGY_SPREAD);
+        }
+    }
+
+    // Positive spectral flux against its running average
+    private detectOnset(blockSeconds: number): void {
+        let flux = 0;
+        for (let k = 1; k < this.magnitudes.length; k++) {
+            flux += Math.max(0, this.magnitudes[k] - this.previousMagnitudes[k]);
+        }
+        this.flux = flux;
+
+        const threshold = this.averageFlux * this.onsetSensitivity;
+        const time = this.samplesProcessed / this.sampleRate;
+        this.onsetThisBlock = threshold > 0 && flux > threshold && time - this.lastOnsetTime >= this.onsetCooldown;
+
+        const alpha = 1 - Math.exp(-blockSeconds / FLUX_AVERAGE_TIME);
+        this.averageFlux += (flux - this.averageFlux) * alpha;
+
+        if (this.onsetThisBlock) {
+            this.lastOnsetTime = time;
+            this.onOnsetEvent.invoke({ strength: flux / threshold, time: time });
+        }
+    }
+}
+
+// In-place radix-2 FFT on bit-reversed input, with twiddle factors
+// e^(-2*pi*i*k/size) for k < size / 2
+function fft(real: Float64Array, imaginary: Float64Array, cosTable: Float64Array, sinTable: Float64Array): void {
+    const size = real.length;
+    for (let length = 2; length <= size; length *= 2) {
+        const half = length / 2;
+        const step = size / length;
+        for (let start = 0; start < size; start += length) {
+            for (let k = 0; k < half; k++) {
+                const cos = cosTable[k * step];
+                const sin = sinTable[k * step];
+                const a = start + k;
+                const b = a + half;
+                const tr = real[b] * cos - imaginary[b] * sin;
+                const ti = real[b] * sin + imaginary[b] * cos;
+                real[b] = real[a] - tr;
+                imaginary[b] = imaginary[a] - ti;
+                real[a] += tr;
+                imaginary[a] += ti;
+            }
+        }
+    }
+}
@@ -4,7 +4,68 @@
  * Direct TypeScript conversion of DJ Specs AudioController.js
  */
 
+import { AudioParameter } from "./AudioParameter";
+import { AudioAnalyzer, DEFAULT_ANALYSIS_BANDS, parseAnalysisBands } from "./AudioAnalyzer";
+import { AudioEffect } from "./AudioEffect";
+import { BeatGrid, BeatGridEstimator, parseBpmFromName } from "./BeatGrid";
+import { Deck } from "./Deck";
+import { createEffect, EFFECT_TYPES, EffectChain } from "./EffectChain";
+import { Event, PublicApi } from "./Event";
 import { FloatArrayWrapper } from "./FloatArrayWrapper";
+import { Limiter } from "./Limiter";
+import { Logger } from "./Logger";
+import { OutputScheduler, OutputStats } from "./OutputScheduler";
+import { DEFAULT_RAMP_TIME, RampedParameter } from "./RampedParameter";
+import { InterpolationMode } from "./Resampler";
+import { LoadState, TrackLoader } from "./TrackLoader";
+
+const log = new Logger("AudioController");
+
+export type TrackLoadEvent = {
+    trackIndex: number;
+    // 0..1
+    progress: number;
+};
+
+// A track requested on a deck before it finished loading
+type PendingLoad = {
+    trackIndex: number;
+    // Evaluated when the track is ready, so phase-matched loads stay in sync
+    startPhase: () => number;
+    onLoaded: (() => void) | null;
+};
+
+export type DeckTrackEvent = {
+    deckIndex: number;
+    // -1 when the deck is empty
+    trackIndex: number;
+    previousTrackIndex: number;
+};
+
+export type LoopWrapEvent = {
+    deckIndex: number;
+    trackIndex: number;
+    // Wraps during the last rendered frame (more than one for very short loops)
+    wraps: number;
+    // True for the A/B loop region, false for the whole track
+    loopRegion: boolean;
+};
+
+export type UnderrunEvent = {
+    // Underruns since the stats were last reset
+    underruns: number;
+    // Estimated frames of silence heard during them
+    underrunFrames: number;
+};
+
+export type BeatEvent = {
+    deckIndex: number;
+    // Beat number since the first downbeat
+    beat: number;
+    bar: number;
+    // 0 on the downbeat
+    beatInBar: number;
+};
 
 @component
 export class AudioController extends BaseScriptComponent {
@@ -21,7 +82,7 @@ export class AudioController extends BaseScriptComponent {
     audio: AudioComponent;
 
     @input
-    @hint("Sample rate")
+    @hint("Output sample rate. Tracks recorded at other rates are resampled to it.")
     sampleRate: number = 44100;
 
     // Public properties (like JS version)
@@ -30,28 +91,267 @@ export class AudioController extends BaseScriptComponent {
     @widget(new SliderWidget(0.0, 3.0, 1.0))
     public rate: number = 1.0;
 
+    @input
+    @hint("Tempo multiplier that keeps pitch (time-stretch)")
+    @widget(new SliderWidget(0.25, 3.0, 0.01))
+    public tempo: number = 1.0;
+
+    @input
+    @hint("Pitch multiplier that keeps tempo (pitch shift)")
+    @widget(new SliderWidget(0.25, 3.0, 0.01))
+    public pitch: number = 1.0;
+
     @input
     @hint("Volume")
     @widget(new SliderWidget(0.0, 2.0, 1.0))
     public volume: number = 1.0;
 
+    @input
+    @hint("Crossfader between deck A (0) and deck B (1), equal-power")
+    @widget(new SliderWidget(0.0, 1.0, 0.01))
+    public crossfader: number = 0.0;
+
+    @input
+    @hint("Resampling quality used when the rate is not 1.0. Tracks at another sample rate than the output always use the band-limited sinc.")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Nearest", InterpolationMode.Nearest),
+        new ComboBoxItem("Linear", InterpolationMode.Linear),
+        new ComboBoxItem("Cubic Hermite", InterpolationMode.Cubic),
+        new ComboBoxItem("Windowed Sinc", InterpolationMode.Sinc)
+    ]))
+    public interpolation: number = InterpolationMode.Cubic;
+
+    @input
+    @hint("Output channel layout")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Mono", 1),
+        new ComboBoxItem("Stereo", 2)
+    ]))
+    public outputChannels: number = 2;
+
+    @input
+    @hint("Stereo balance (-1 = left, 0 = center, 1 = right)")
+    @widget(new SliderWidget(-1.0, 1.0, 0.01))
+    public pan: number = 0.0;
+
+    @input
+    @hint("Stereo width (0 = mono, 1 = original, 2 = extra wide)")
+    @widget(new SliderWidget(0.0, 2.0, 0.01))
+    public stereoWidth: number = 1.0;
+
+    @input
+    @hint("Seconds a parameter takes to glide to a new value, so changes made every frame don't step (0 = instant)")
+    @widget(new SliderWidget(0.0, 0.5, 0.005))
+    public parameterRampTime: number = DEFAULT_RAMP_TIME;
+
+    @input
+    @hint("Insert effects created on each deck, in order: lowpass, highpass, bandpass, delay, reverb, bitcrusher, limiter")
+    public deckEffects: string[] = [];
+
+    @input
+    @hint("Limit the master output so volume above 1.0 doesn't clip")
+    public masterLimiter: boolean = true;
+
+    @input
+    @hint("Decode tracks a little each frame instead of all at startup")
+    public streamLoading: boolean = true;
+
+    @input
+    @hint("Audio frames decoded per frame while loading or refilling the cache")
+    public loadFramesPerUpdate: number = 65536;
+
+    @input
+    @hint("Seconds of audio kept in memory per playhead, and ahead of decoding while a track loads (0 = whole track). Needs a seekable track provider.")
+    public maxCachedSeconds: number = 0;
+
+    @input
+    @hint("Render as much audio as the output queue needs each frame, instead of the preferred frame size")
+    public adaptiveOutput: boolean = true;
+
+    @input
+    @hint("Audio to keep queued ahead of playback, in seconds (higher = fewer gaps, more delay)")
+    @widget(new SliderWidget(0.02, 0.3, 0.01))
+    public targetLatency: number = 0.06;
+
+    @input
+    @hint("Queued audio above this many seconds counts as an overrun and pauses rendering")
+    @widget(new SliderWidget(0.05, 1.0, 0.01))
+    public maxLatency: number = 0.2;
+
+    @input
+    @hint("Tempo of each input track in BPM (0 or missing = read \"130bpm\" from the track name, or estimate)")
+    public trackBpm: number[] = [];
+
+    @input
+    @hint("Time of the first downbeat of each input track in seconds (missing = estimate)")
+    public trackDownbeats: number[] = [];
+
+    @input
+    @hint("Estimate tempo and downbeat from the audio when they aren't given")
+    public estimateTempo: boolean = true;
+
+    @input
+    @hint("Beats per bar for bar positions and bar events")
+    public beatsPerBar: number = 4;
+
+    @input
+    @hint("Analyze the output (levels, spectrum bands, onsets) for visuals, see getAnalyzer")
+    public enableAnalysis: boolean = true;
+
+    @input
+    @hint("Spectrum size for analysis: larger resolves low frequencies better but reacts slower")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("512", 512),
+        new ComboBoxItem("1024", 1024),
+        new ComboBoxItem("2048", 2048),
+        new ComboBoxItem("4096", 4096)
+    ]))
+    public analysisFftSize: number = 1024;
+
+    @input
+    @hint("Analysis bands as name:low-high in Hz, e.g. bass:20-250, mid:250-4000, high:4000-16000")
+    public analysisBands: string = DEFAULT_ANALYSIS_BANDS;
+
+    @input
+    @hint("Onset detection: how far the spectral change must exceed its average (higher = fewer onsets)")
+    @widget(new SliderWidget(1.0, 5.0, 0.1))
+    public onsetSensitivity: number = 1.5;
+
     // Module variables (exactly like JS)
-    private audioData: FloatArrayWrapper | null = null;
     private audioSource: any = null;
     private audioFrame: Float32Array | null = null;
     private resultFrame: Float32Array | null = null;
     private audioOutput: any = null;
-    private phase: number = 0.0;
-    private trackOnDeck: boolean = false;
     private audioArrays: FloatArrayWrapper[] = [];
 
+    // Incremental decoding, one loader per input track
+    private loaders: TrackLoader[] = [];
+    private pendingLoads: (PendingLoad | null)[] = [null, null];
+
+    private onTrackProgressEvent = new Event<TrackLoadEvent>();
+    private onTrackReadyEvent = new Event<TrackLoadEvent>();
+
+    /**
+     * Fires each frame a track is decoding
+     */
+    public readonly onTrackProgress: PublicApi<TrackLoadEvent> = this.onTrackProgressEvent.publicApi();
+
+    /**
+     * Fires when a track has been fully decoded and can play
+     */
+    public readonly onTrackReady: PublicApi<TrackLoadEvent> = this.onTrackReadyEvent.publicApi();
+
+    private onTrackLoadedEvent = new Event<DeckTrackEvent>();
+    private onTrackChangedEvent = new Event<DeckTrackEvent>();
+    private onLoopWrapEvent = new Event<LoopWrapEvent>();
+    private onUnderrunEvent = new Event<UnderrunEvent>();
+
+    /**
+     * Fires when a track is loaded onto a deck
+     */
+    public readonly onTrackLoaded: PublicApi<DeckTrackEvent> = this.onTrackLoadedEvent.publicApi();
+
+    /**
+     * Fires when the track being heard changes: a new track on the active
+     * deck, or the crossfader moving over to the other deck
+     */
+    public readonly onTrackChanged: PublicApi<DeckTrackEvent> = this.onTrackChangedEvent.publicApi();
+
+    /**
+     * Fires when a deck's playhead wraps around its loop region or track
+     */
+    public readonly onLoopWrap: PublicApi<LoopWrapEvent> = this.onLoopWrapEvent.publicApi();
+
+    /**
+     * Fires when the output queue ran dry and a gap was heard (only while
+     * adaptiveOutput is on)
+     */
+    public readonly onUnderrun: PublicApi<UnderrunEvent> = this.onUnderrunEvent.publicApi();
+
+    // Two decks mixed through the crossfader
+    private decks: Deck[] = [new Deck("A"), new Deck("B")];
+
+    // Deck and track last reported by onTrackChanged
+    private heardDeck: number = -1;
+    private heardTrack: number = -1;
+
+    // Automatic crossfade state (see crossfadeTo)
+    private crossfadeTarget: number = 0.0;
+    private crossfadeSpeed: number = 0.0;
+
+    // Per-deck render buffers and the stereo mix bus
+    private deckLeft: Float32Array[] = [];
+    private deckRight: Float32Array[] = [];
+    private mixLeft: Float32Array = new Float32Array(0);
+    private mixRight: Float32Array = new Float32Array(0);
+
+    // The master controls above glide to their new values sample by sample
+    private rateRamp: RampedParameter = new RampedParameter(1.0);
+    private tempoRamp: RampedParameter = new RampedParameter(1.0);
+    private pitchRamp: RampedParameter = new RampedParameter(1.0);
+    private volumeRamp: RampedParameter = new RampedParameter(1.0);
+    private crossfaderRamp: RampedParameter = new RampedParameter(0.0);
+    private panRamp: RampedParameter = new RampedParameter(0.0);
+    private widthRamp: RampedParameter = new RampedParameter(1.0);
+
+    // Per-sample values of the ramped controls for the block being rendered
+    private rateValues: Float64Array = new Float64Array(0);
+    private tempoValues: Float64Array = new Float64Array(0);
+    private pitchValues: Float64Array = new Float64Array(0);
+    private volumeValues: Float64Array = new Float64Array(0);
+    private crossfaderValues: Float64Array = new Float64Array(0);
+    private panValues: Float64Array = new Float64Array(0);
+    private widthValues: Float64Array = new Float64Array(0);
+    private deckVolumeValues: Float64Array = new Float64Array(0);
+
+    // Per-deck insert effects and the master limiter
+    private effectChains: EffectChain[] = [new EffectChain(), new EffectChain()];
+    private outputLimiter: Limiter | null = null;
+
+    // Levels, spectrum and onsets of the output, null while analysis is off
+    private analyzer: AudioAnalyzer | null = null;
+
+    // Estimated output queue level, used to size each rendered frame
+    private outputScheduler: OutputScheduler = new OutputScheduler(44100);
+
+    // Tempo map per track, and the last beat each deck reported
+    private beatGrids: (BeatGrid | null)[] = [];
+    private lastBeats: number[] = [NaN, NaN];
+    // Tempo estimates that follow the decoding, null where the metadata is enough
+    private tempoEstimators: (BeatGridEstimator | null)[] = [];
+
+    private onBeatEvent = new Event<BeatEvent>();
+    private onBarEvent = new Event<BeatEvent>();
+
+    /**
+     * Fires when a deck's playhead crosses into a new beat
+     */
+    public readonly onBeat: PublicApi<BeatEvent> = this.onBeatEvent.publicApi();
+
+    /**
+     * Fires when a deck's playhead crosses a downbeat
+     */
+    public readonly onBar: PublicApi<BeatEvent> = this.onBarEvent.publicApi();
+
+    // Parameters reachable by name (see setParameter), available before onAwake
+    private parameters: { [name: string]: AudioParameter } = this.createParameters();
+
     onAwake(): void {
         // Set up audio output (like JS)
         this.audioOutput = this.outputAudio.control;
         this.audioOutput.sampleRate = this.sampleRate;
         this.audioOutput.loops = -1;
+        if (this.audioOutput.sampleRate > 0 && this.audioOutput.sampleRate !== this.sampleRate) {
+            log.warn("Output runs at " + this.audioOutput.sampleRate + " Hz instead of " + this.sampleRate + " Hz");
+            this.sampleRate = this.audioOutput.sampleRate;
+        }
+        this.outputScheduler = new OutputScheduler(this.sampleRate, this.targetLatency, this.maxLatency);
+
+        this.buildEffectChains();
+        this.jumpRamps();
+        this.createAnalyzer();
 
-        // Load tracks immediately (like JS)
+        // Load tracks immediately (like JS), or queue them to stream in
         this.loadTracks();
 
         // Auto-start first track if available
@@ -62,63 +362,973 @@ export class AudioController extends BaseScriptComponent {
         // Start audio playback (like JS)
         this.audio.play(-1);
 
-        // Bind play function (like JS)
+        // Bind render function (play() in the JS version)
         this.createEvent("LateUpdateEvent").bind(() => {
-            this.play();
+            this.updateLoading();
+            this.renderFrame();
+            this.updateHeardTrack();
         });
 
-        print("AudioController ready - adjust Rate slider to test pitch shifting");
+        log.info("Ready - adjust Rate slider to test pitch shifting");
     }
 
-    // Exact copy of JS loadTracks() function
+    // JS loadTracks(), keeping every channel of the decoded buffers.
+    // Buffer shape is (frames, channels, 1) with interleaved samples.
+    // With streamLoading the decoding happens in updateLoading instead.
     private loadTracks(): void {
         for (let i = 0; i < this.inputTrack.length; i++) {
-            const audioSource = this.inputTrack[i].control as any;
-            const audioData = new FloatArrayWrapper();
-            const audioFrame = new Float32Array(audioSource.maxFrameSize);
-            let audioFrameShape = audioSource.getAudioBuffer(audioFrame, 4096);
-            while (audioFrameShape.x !== 0) {
-                audioData.push(audioFrame, audioFrameShape.x);
-                audioFrameShape = audioSource.getAudioBuffer(audioFrame, 4096);
+            this.loaders[i] = new TrackLoader(this.inputTrack[i].control as AudioTrackProvider, i, this.sampleRate);
+            this.tempoEstimators[i] = this.createTempoEstimator(i, this.loaders[i].sampleRate);
+        }
+        if (this.streamLoading) {
+            log.info("Streaming " + this.inputTrack.length + " tracks");
+            return;
+        }
+
+        for (let i = 0; i < this.loaders.length; i++) {
+            this.loaders[i].step(Infinity);
+            this.completeTempoEstimate(i);
+            this.finishLoading(this.loaders[i]);
+        }
+        log.info("Loaded " + this.inputTrack.length + " tracks");
+    }
+
+    // Decode part of the next track, then keep cached tracks near their playheads
+    private updateLoading(): void {
+        const loader = this.nextLoader();
+        if (loader) {
+            const isDone = loader.step(this.loadFramesPerUpdate);
+            this.onTrackProgressEvent.invoke({ trackIndex: loader.trackIndex, progress: loader.progress });
+            if (isDone) {
+                this.finishLoading(loader);
             }
-            this.audioArrays[i] = audioData;
         }
-        print("Loaded " + this.inputTrack.length + " tracks");
+        this.updateTempoEstimates();
+        this.updateCache();
     }
 
-    // Simplified setTrack - just loads first track
-    public setTrack(audioTrack: AudioTrackAsset): void {
-        print("SET TRACK");
-        this.phase = 0.0;
-        this.audioData = this.audioArrays[0]; // Always use first track
+    // Tracks waiting on a deck load first, then the rest in order
+    private nextLoader(): TrackLoader | null {
+        for (let d = 0; d < this.pendingLoads.length; d++) {
+            const pending = this.pendingLoads[d];
+            if (pending && !this.loaders[pending.trackIndex].isReady) {
+                return this.loaders[pending.trackIndex];
+            }
+        }
+        for (let i = 0; i < this.loaders.length; i++) {
+            const state = this.loaders[i].state;
+            if (state === LoadState.Pending || state === LoadState.Loading) {
+                return this.loaders[i];
+            }
+        }
+        return null;
+    }
+
+    private finishLoading(loader: TrackLoader): void {
+        const i = loader.trackIndex;
+        const audioData = loader.audioData;
+        if (loader.state === LoadState.Failed || !audioData) {
+            log.error("Track " + i + " has no audio");
+            return;
+        }
+
+        this.audioArrays[i] = audioData;
+        this.beatGrids[i] = this.buildBeatGrid(i);
+        if (this.maxCachedSeconds > 0 && !loader.canSeek) {
+            log.warn("Track " + i + " can't seek, keeping the whole track in memory");
+        }
+        log.info("Track " + i + " has " + audioData.getChannelCount() + " channel(s)");
+        this.onTrackReadyEvent.invoke({ trackIndex: i, progress: 1.0 });
+
+        for (let d = 0; d < this.pendingLoads.length; d++) {
+            const pending = this.pendingLoads[d];
+            if (pending && pending.trackIndex === i) {
+                this.pendingLoads[d] = null;
+                this.loadDeck(d, i, pending.startPhase());
+                if (pending.onLoaded) {
+                    pending.onLoaded();
+                }
+            }
+        }
+    }
+
+    // Drop chunks far from the playheads and decode the ones the playheads are
+    // heading into. Tracks still decoding keep the audio around the decode
+    // position too (the tempo estimate has read everything before it by now).
+    private updateCache(): void {
+        if (this.maxCachedSeconds <= 0) {
+            return;
+        }
+
+        // Each playhead gets an even share of the decoding budget
+        const budget = this.loadFramesPerUpdate / this.decks.length;
+        for (let i = 0; i < this.loaders.length; i++) {
+            const loader = this.loaders[i];
+            const data = loader.audioData;
+            if (!loader.canSeek || !data || loader.state === LoadState.Failed) {
+                continue;
+            }
 
-        this.audioSource = audioTrack.control;
-        this.audioSource.sampleRate = this.sampleRate;
+            const cacheFrames = this.maxCachedSeconds * loader.sampleRate;
+
+            const playheads: number[] = [];
+            for (let d = 0; d < this.decks.length; d++) {
+                const deck = this.decks[d];
+                if (deck.isLoaded && deck.loadedTrackIndex === i) {
+                    playheads.push(deck.position);
+                    // Keep more audio on the side the deck is playing towards
+                    const forward = deck.rate * this.rate * this.tempo >= 0;
+                    const ahead = cacheFrames * 0.6;
+                    const behind = cacheFrames * 0.3;
+                    loader.refill(deck.position, forward ? behind : ahead, forward ? ahead : behind, budget);
+                }
+            }
+
+            if (!loader.isReady) {
+                playheads.push(loader.decodeFrame);
+            }
+
+            const chunksPerPlayhead = Math.ceil(cacheFrames * data.getChannelCount() / data.getChunkSize()) + 2;
+            data.maxResidentChunks = chunksPerPlayhead * Math.max(1, playheads.length);
+            data.evictAround(playheads.length > 0 ? playheads : [0]);
+
+            const missed = data.takeMissedReads();
+            if (missed > 0) {
+                log.warn("Track " + i + ": " + missed + " samples not in cache played as silence");
+            }
+        }
+    }
+
+    /**
+     * Load a track onto a deck
+     * @param track Track asset from inputTrack, or its index
+     * @param deckIndex Deck to load onto (0 = A, 1 = B)
+     * @param startPhase Position in track frames to start from, defaults to the beginning
+     */
+    public setTrack(track: AudioTrackAsset | number, deckIndex: number = 0, startPhase: number = 0.0): void {
+        this.requestTrack(track, deckIndex, () => startPhase, null);
+    }
+
+    // Load a track onto a deck now, or as soon as it has finished decoding
+    private requestTrack(track: AudioTrackAsset | number, deckIndex: number,
+                         startPhase: () => number, onLoaded: (() => void) | null): void {
+        const trackIndex = this.resolveTrackIndex(track);
+        const loader = this.loaders[trackIndex];
+        if (trackIndex < 0 || !loader || loader.state === LoadState.Failed) {
+            log.error("Track not loaded: " + track);
+            return;
+        }
+
+        const deck = this.decks[deckIndex];
+        if (!deck) {
+            log.error("No deck at index " + deckIndex);
+            return;
+        }
+
+        this.audioSource = this.inputTrack[trackIndex].control;
         this.audioSource.loops = 1;
 
-        this.audioFrame = new Float32Array(this.audioSource.maxFrameSize);
-        this.resultFrame = new Float32Array(this.audioSource.maxFrameSize);
-        this.trackOnDeck = true;
-        print("Track on deck - adjust Rate slider!");
+        if (!this.resultFrame) {
+            this.audioFrame = new Float32Array(this.audioSource.maxFrameSize);
+            this.resultFrame = new Float32Array(this.audioSource.maxFrameSize * 2);
+        }
+
+        if (!loader.isReady) {
+            this.pendingLoads[deckIndex] = { trackIndex: trackIndex, startPhase: startPhase, onLoaded: onLoaded };
+            log.info("Track " + trackIndex + " queued on deck " + deck.name + " until it has loaded");
+            return;
+        }
+
+        this.pendingLoads[deckIndex] = null;
+        this.loadDeck(deckIndex, trackIndex, startPhase());
+        if (onLoaded) {
+            onLoaded();
+        }
+    }
+
+    private loadDeck(deckIndex: number, trackIndex: number, startPhase: number): void {
+        const deck = this.decks[deckIndex];
+        const previousTrackIndex = deck.loadedTrackIndex;
+        const trackRate = this.trackSampleRate(trackIndex);
+        deck.load(this.audioArrays[trackIndex], trackIndex, startPhase, trackRate / this.sampleRate);
+        this.lastBeats[deckIndex] = NaN;
+        log.info("Track " + trackIndex + " on deck " + deck.name +
+            (trackRate !== this.sampleRate ? " (resampled from " + trackRate + " Hz)" : ""));
+        this.onTrackLoadedEvent.invoke({ deckIndex: deckIndex, trackIndex: trackIndex, previousTrackIndex: previousTrackIndex });
+    }
+
+    // Fire onTrackChanged when the deck or track being heard changes
+    private updateHeardTrack(): void {
+        const deckIndex = this.activeDeckIndex;
+        const deck = this.decks[deckIndex];
+        const trackIndex = deck.isLoaded ? deck.loadedTrackIndex : -1;
+        if (deckIndex === this.heardDeck && trackIndex === this.heardTrack) {
+            return;
+        }
+
+        const previousTrackIndex = this.heardTrack;
+        this.heardDeck = deckIndex;
+        this.heardTrack = trackIndex;
+        if (trackIndex !== previousTrackIndex) {
+            this.onTrackChangedEvent.invoke({ deckIndex: deckIndex, trackIndex: trackIndex, previousTrackIndex: previousTrackIndex });
+        }
+    }
+
+    /**
+     * Load a track onto the deck that is currently faded out and crossfade to it.
+     * The incoming deck starts at the outgoing deck's playhead so the switch
+     * doesn't jump back to the start of the song.
+     * @param track Track asset from inputTrack, or its index
+     * @param duration Crossfade time in seconds (0 = instant)
+     * @param keepPhase Start the incoming track at the outgoing deck's position
+     */
+    public crossfadeTo(track: AudioTrackAsset | number, duration: number = 2.0, keepPhase: boolean = true): void {
+        const incomingIndex = this.crossfader < 0.5 ? 1 : 0;
+        const outgoing = this.decks[1 - incomingIndex];
+        // Same time in the song, converted between the tracks' sample rates
+        const startPhase = () => keepPhase && outgoing.isLoaded ?
+            outgoing.position / this.trackSampleRate(outgoing.loadedTrackIndex) * this.trackSampleRate(this.resolveTrackIndex(track)) : 0.0;
+
+        // If the track is still decoding, the fade starts once it is ready
+        this.requestTrack(track, incomingIndex, startPhase, () => {
+            this.crossfadeTarget = incomingIndex;
+            if (duration <= 0) {
+                this.crossfader = this.crossfadeTarget;
+                this.crossfadeSpeed = 0.0;
+            } else {
+                this.crossfadeSpeed = 1.0 / duration;
+            }
+        });
+    }
+
+    /**
+     * Remove the track from a deck
+     */
+    public ejectTrack(deckIndex: number): void {
+        const deck = this.decks[deckIndex];
+        if (deck) {
+            deck.eject();
+            this.pendingLoads[deckIndex] = null;
+        }
+    }
+
+    /**
+     * Start or resume playback
+     * @param deckIndex Deck to start, or -1 for both decks
+     */
+    public play(deckIndex: number = -1): void {
+        this.forEachDeck(deckIndex, (deck) => deck.play());
+    }
+
+    /**
+     * Pause playback, keeping the playhead where it is
+     * @param deckIndex Deck to pause, or -1 for both decks
+     */
+    public pause(deckIndex: number = -1): void {
+        this.forEachDeck(deckIndex, (deck) => deck.pause());
     }
 
-    // Simplified play() function - just one track
-    private play(): void {
-        const size = this.audioOutput.getPreferredFrameSize();
+    /**
+     * Move a deck's playhead
+     * @param position Position in track frames, or in seconds if inSeconds is set
+     */
+    public seek(position: number, deckIndex: number = 0, inSeconds: boolean = false): void {
+        const deck = this.decks[deckIndex];
+        if (deck) {
+            deck.seek(inSeconds ? this.secondsToTrackFrames(position, deck) : position);
+        }
+    }
+
+    /**
+     * Store a cue point on a deck
+     * @param cueIndex Cue slot
+     * @param position Position in track frames, or in seconds if inSeconds is set
+     */
+    public setCuePoint(cueIndex: number, position: number, deckIndex: number = 0, inSeconds: boolean = false): void {
+        const deck = this.decks[deckIndex];
+        if (deck) {
+            deck.setCuePoint(cueIndex, inSeconds ? this.secondsToTrackFrames(position, deck) : position);
+        }
+    }
+
+    /**
+     * Store the deck's current playhead as a cue point
+     */
+    public setCuePointHere(cueIndex: number, deckIndex: number = 0): void {
+        const deck = this.decks[deckIndex];
+        if (deck) {
+            deck.setCuePoint(cueIndex, deck.position);
+        }
+    }
+
+    /**
+     * Jump a deck to a stored cue point
+     * @returns false if the cue slot is empty
+     */
+    public jumpToCue(cueIndex: number, deckIndex: number = 0): boolean {
+        const deck = this.decks[deckIndex];
+        return deck ? deck.jumpToCue(cueIndex) : false;
+    }
 
-        if (!this.resultFrame || !this.trackOnDeck || !this.audioData) return;
+    /**
+     * Set an A/B loop region on a deck
+     * @param loopStart Loop start (A) in track frames, or seconds if inSeconds is set
+     * @param loopEnd Loop end (B) in track frames, or seconds if inSeconds is set
+     */
+    public setLoop(loopStart: number, loopEnd: number, deckIndex: number = 0, inSeconds: boolean = false): void {
+        const deck = this.decks[deckIndex];
+        if (!deck) {
+            return;
+        }
+        if (inSeconds) {
+            deck.setLoop(this.secondsToTrackFrames(loopStart, deck), this.secondsToTrackFrames(loopEnd, deck));
+        } else {
+            deck.setLoop(loopStart, loopEnd);
+        }
+    }
+
+    /**
+     * Remove the loop region from a deck
+     */
+    public clearLoop(deckIndex: number = 0): void {
+        const deck = this.decks[deckIndex];
+        if (deck) {
+            deck.clearLoop();
+        }
+    }
+
+    /**
+     * Get a deck's playhead in seconds
+     */
+    public getPositionSeconds(deckIndex: number = 0): number {
+        const deck = this.decks[deckIndex];
+        return deck && deck.isLoaded ? deck.position / this.trackSampleRate(deck.loadedTrackIndex) : 0;
+    }
+
+    /**
+     * Tempo map of the track on a deck
+     * @returns null if the deck is empty or the track's tempo is unknown
+     */
+    public getBeatGrid(deckIndex: number = 0): BeatGrid | null {
+        const deck = this.decks[deckIndex];
+        if (!deck || !deck.isLoaded) {
+            return null;
+        }
+        return this.beatGrids[deck.loadedTrackIndex] || null;
+    }
+
+    /**
+     * Set the tempo of a track, replacing metadata or the estimate
+     * @param track Track asset from inputTrack, or its index
+     * @param bpm Beats per minute at rate 1.0
+     * @param downbeatOffset Time of the first downbeat in seconds
+     */
+    public setTrackTempo(track: AudioTrackAsset | number, bpm: number, downbeatOffset: number = 0.0): void {
+        const trackIndex = this.resolveTrackIndex(track);
+        if (trackIndex < 0 || bpm <= 0) {
+            log.error("Invalid tempo " + bpm + " for track " + track);
+            return;
+        }
+        this.beatGrids[trackIndex] = new BeatGrid(bpm, downbeatOffset, this.beatsPerBar);
+    }
+
+    /**
+     * Beat position of a deck's playhead (fractional, 0 = first downbeat).
+     * Follows the playhead, so it already accounts for rate and tempo.
+     */
+    public getBeatPosition(deckIndex: number = 0): number {
+        const grid = this.getBeatGrid(deckIndex);
+        return grid ? grid.beatAt(this.getPositionSeconds(deckIndex)) : 0;
+    }
+
+    /**
+     * Bar position of a deck's playhead (fractional, 0 = first downbeat)
+     */
+    public getBarPosition(deckIndex: number = 0): number {
+        const grid = this.getBeatGrid(deckIndex);
+        return grid ? grid.barAt(this.getPositionSeconds(deckIndex)) : 0;
+    }
+
+    /**
+     * Tempo a deck is currently heard at: the track BPM scaled by the deck
+     * rate, master rate and tempo
+     * @returns 0 if the tempo is unknown
+     */
+    public getBpm(deckIndex: number = 0): number {
+        const grid = this.getBeatGrid(deckIndex);
+        if (!grid) {
+            return 0;
+        }
+        const deck = this.decks[deckIndex];
+        return grid.bpm * Math.abs(deck.rate * this.rate * this.tempo);
+    }
+
+    /**
+     * Get a deck to control its own rate, volume and playhead
+     * @param deckIndex 0 = A, 1 = B
+     */
+    public getDeck(deckIndex: number): Deck | null {
+        return this.decks[deckIndex] || null;
+    }
+
+    /**
+     * Set a parameter by name, e.g. "rate", "crossfader", "deckB.volume",
+     * "deckA.lowpass.cutoff" (first effect of that type), "deckA.fx0.mix"
+     * (effect by chain position) or "master.limiter.threshold"
+     * @param rampTime Seconds to glide to the value, defaults to parameterRampTime (0 = instant)
+     * @returns false if there is no parameter with that name
+     */
+    public setParameter(name: string, value: number, rampTime?: number): boolean {
+        const parameter = this.parameters[name];
+        if (parameter) {
+            parameter.set(value, rampTime);
+            return true;
+        }
+
+        const effect = this.findEffectForParameter(name);
+        const effectRampTime = rampTime === undefined ? this.parameterRampTime : rampTime;
+        return effect ? effect.setParameter(this.effectParameterName(name), value, effectRampTime) : false;
+    }
+
+    /**
+     * Get a parameter by name, or NaN if there is no parameter with that name.
+     * Returns the value last set; the audio may still be gliding towards it.
+     */
+    public getParameter(name: string): number {
+        const parameter = this.parameters[name];
+        if (parameter) {
+            return parameter.get();
+        }
+
+        const effect = this.findEffectForParameter(name);
+        return effect ? effect.getParameter(this.effectParameterName(name)) : NaN;
+    }
+
+    public hasParameter(name: string): boolean {
+        return !isNaN(this.getParameter(name));
+    }
+
+    /**
+     * Names of every parameter that can be driven from script, including
+     * the parameters of the effects currently in the chains
+     */
+    public getParameterNames(): string[] {
+        const names = Object.keys(this.parameters);
+        for (let d = 0; d < this.decks.length; d++) {
+            const chain = this.effectChains[d];
+            for (let e = 0; e < chain.length; e++) {
+                const effect = chain.get(e) as AudioEffect;
+                effect.getParameterNames().forEach((parameterName) => {
+                    names.push("deck" + this.decks[d].name + "." + effect.type + "." + parameterName);
+                });
+            }
+        }
+        if (this.outputLimiter) {
+            this.outputLimiter.getParameterNames().forEach((parameterName) => {
+                names.push("master.limiter." + parameterName);
+            });
+        }
+        return names;
+    }
+
+    /**
+     * Add an effect to the end of a deck's chain
+     * @param type lowpass, highpass, bandpass, delay, reverb, bitcrusher or limiter
+     * @param deckIndex Deck to add to, or -1 for both decks
+     * @returns The created effect (the first one when adding to both decks)
+     */
+    public addEffect(type: string, deckIndex: number = -1): AudioEffect | null {
+        let created: AudioEffect | null = null;
+        for (let d = 0; d < this.decks.length; d++) {
+            if (deckIndex >= 0 && deckIndex !== d) {
+                continue;
+            }
+            const effect = createEffect(type, this.sampleRate);
+            if (!effect) {
+                log.error("Unknown effect \"" + type + "\". Available: " + EFFECT_TYPES.join(", "));
+                return null;
+            }
+            this.effectChains[d].add(effect);
+            created = created || effect;
+        }
+        return created;
+    }
+
+    /**
+     * Get a deck's effect chain to add, remove or reorder effects
+     */
+    public getEffectChain(deckIndex: number): EffectChain | null {
+        return this.effectChains[deckIndex] || null;
+    }
+
+    /**
+     * Output queue level, latency statistics and underrun/overrun counts
+     */
+    public getOutputStats(): OutputStats {
+        return this.outputScheduler.getStats();
+    }
+
+    /**
+     * Analysis of the output (RMS/peak, spectrum bands, onsets), updated with
+     * every rendered frame. Null when enableAnalysis is off.
+     */
+    public getAnalyzer(): AudioAnalyzer | null {
+        return this.analyzer;
+    }
+
+    /**
+     * Clear the underrun/overrun counters and latency statistics
+     */
+    public resetOutputStats(): void {
+        this.outputScheduler.resetStats();
+    }
+
+    /**
+     * Index of the deck the crossfader is leaning towards
+     */
+    public get activeDeckIndex(): number {
+        return this.crossfader < 0.5 ? 0 : 1;
+    }
+
+    /**
+     * Number of tracks available to setTrack, loaded or still decoding
+     */
+    public get trackCount(): number {
+        return this.loaders.length;
+    }
+
+    /**
+     * Whether a track has been fully decoded
+     * @param track Track asset from inputTrack, or its index
+     */
+    public isTrackReady(track: AudioTrackAsset | number): boolean {
+        const loader = this.loaders[this.resolveTrackIndex(track)];
+        return !!loader && loader.isReady;
+    }
+
+    /**
+     * Decoding progress of a track, 0..1
+     * @param track Track asset from inputTrack, or its index
+     */
+    public getTrackLoadProgress(track: AudioTrackAsset | number): number {
+        const loader = this.loaders[this.resolveTrackIndex(track)];
+        return loader ? loader.progress : 0;
+    }
+
+    // Tempo from the trackBpm input or the track name, 0 if neither gives one
+    private metadataBpm(trackIndex: number): number {
+        const bpm = this.trackBpm[trackIndex] || 0;
+        return bpm > 0 ? bpm : parseBpmFromName(this.inputTrack[trackIndex].name);
+    }
+
+    // Estimator for tracks whose tempo or downbeat has to come from the audio
+    private createTempoEstimator(trackIndex: number, sampleRate: number): BeatGridEstimator | null {
+        const hasDownbeat = trackIndex < this.trackDownbeats.length;
+        if (!this.estimateTempo || (this.metadataBpm(trackIndex) > 0 && hasDownbeat)) {
+            return null;
+        }
+        return new BeatGridEstimator(sampleRate, this.beatsPerBar, this.metadataBpm(trackIndex));
+    }
+
+    // Analyze newly decoded frames, or run the next part of the search once a
+    // track has been analyzed, so estimates are spread over the updates. A
+    // track's grid is replaced when its estimate is done.
+    private updateTempoEstimates(): void {
+        for (let i = 0; i < this.tempoEstimators.length; i++) {
+            const estimator = this.tempoEstimators[i];
+            const loader = this.loaders[i];
+            const data = loader.audioData;
+            if (!estimator || estimator.isDone || !data) {
+                continue;
+            }
+            if (estimator.step(data, data.getFrameCount(), loader.isReady) && loader.isReady) {
+                this.beatGrids[i] = this.buildBeatGrid(i);
+            }
+        }
+    }
+
+    // Run a track's whole estimate now, for tracks decoded up front
+    private completeTempoEstimate(trackIndex: number): void {
+        const estimator = this.tempoEstimators[trackIndex];
+        const loader = this.loaders[trackIndex];
+        const data = loader.audioData;
+        if (!estimator || !data) {
+            return;
+        }
+        while (!estimator.step(data, data.getFrameCount(), loader.isReady)) {
+            // Each step runs one more part of the analysis
+        }
+    }
+
+    // Tempo from the trackBpm input, the track name or the audio, in that
+    // order. Only the metadata is used while the estimate is running.
+    private buildBeatGrid(trackIndex: number): BeatGrid | null {
+        const bpm = this.metadataBpm(trackIndex);
+        const hasDownbeat = trackIndex < this.trackDownbeats.length;
+
+        if (bpm > 0 && (hasDownbeat || !this.estimateTempo)) {
+            const offset = hasDownbeat ? this.trackDownbeats[trackIndex] : 0.0;
+            return new BeatGrid(bpm, offset, this.beatsPerBar);
+        }
+        if (!this.estimateTempo) {
+            return null;
+        }
+
+        const estimator = this.tempoEstimators[trackIndex];
+        if (estimator && !estimator.isDone) {
+            return bpm > 0 ? new BeatGrid(bpm, hasDownbeat ? this.trackDownbeats[trackIndex] : 0.0, this.beatsPerBar) : null;
+        }
+        const estimate = estimator ? estimator.result : null;
+        if (!estimate) {
+            log.warn("Could not estimate the tempo of track " + trackIndex);
+            return bpm > 0 ? new BeatGrid(bpm, hasDownbeat ? this.trackDownbeats[trackIndex] : 0.0, this.beatsPerBar) : null;
+        }
+        if (hasDownbeat) {
+            estimate.downbeatOffset = this.trackDownbeats[trackIndex];
+        }
+        log.info("Track " + trackIndex + " tempo " + estimate.bpm + " BPM, first downbeat at " +
+            estimate.downbeatOffset.toFixed(3) + "s" + (bpm > 0 ? "" : " (estimated)"));
+        return estimate;
+    }
+
+    // Fire beat and bar events when a deck's playhead enters a new beat
+    private updateBeats(deckIndex: number): void {
+        const grid = this.getBeatGrid(deckIndex);
+        if (!grid) {
+            return;
+        }
+
+        const beat = Math.floor(grid.beatAt(this.getPositionSeconds(deckIndex)));
+        const previous = this.lastBeats[deckIndex];
+        this.lastBeats[deckIndex] = beat;
+        if (isNaN(previous) || beat === previous) {
+            return;
+        }
+
+        const beatInBar = ((beat % grid.beatsPerBar) + grid.beatsPerBar) % grid.beatsPerBar;
+        const event: BeatEvent = {
+            deckIndex: deckIndex,
+            beat: beat,
+            bar: Math.floor(beat / grid.beatsPerBar),
+            beatInBar: beatInBar
+        };
+        this.onBeatEvent.invoke(event);
+        if (beatInBar === 0) {
+            this.onBarEvent.invoke(event);
+        }
+    }
+
+    // Setting a master control starts its ramp with the given time; without
+    // one the ramp picks up the new value in the next render (parameterRampTime)
+    private createParameters(): { [name: string]: AudioParameter } {
+        const parameters: { [name: string]: AudioParameter } = {};
+        const ramped = (ramp: RampedParameter, get: () => number, assign: (v: number) => void): AudioParameter => ({
+            get: get,
+            set: (v, rampTime) => {
+                assign(v);
+                if (rampTime !== undefined) {
+                    ramp.setTarget(v, this.secondsToSamples(rampTime));
+                }
+            }
+        });
+        parameters["rate"] = ramped(this.rateRamp, () => this.rate, (v) => { this.rate = v; });
+        parameters["tempo"] = ramped(this.tempoRamp, () => this.tempo, (v) => { this.tempo = v; });
+        parameters["pitch"] = ramped(this.pitchRamp, () => this.pitch, (v) => { this.pitch = v; });
+        parameters["volume"] = ramped(this.volumeRamp, () => this.volume, (v) => { this.volume = v; });
+        parameters["crossfader"] = ramped(this.crossfaderRamp, () => this.crossfader, (v) => { this.crossfader = v; });
+        parameters["pan"] = ramped(this.panRamp, () => this.pan, (v) => { this.pan = v; });
+        parameters["stereoWidth"] = ramped(this.widthRamp, () => this.stereoWidth, (v) => { this.stereoWidth = v; });
+
+        for (let d = 0; d < this.decks.length; d++) {
+            const deck = this.decks[d];
+            const prefix = "deck" + deck.name + ".";
+            parameters[prefix + "rate"] = {
+                get: () => deck.rate,
+                set: (v, rampTime) => {
+                    if (rampTime === undefined) {
+                        deck.rate = v;
+                    } else {
+                        deck.rampRate(v, this.secondsToSamples(rampTime));
+                    }
+                }
+            };
+            parameters[prefix + "volume"] = {
+                get: () => deck.volume,
+                set: (v, rampTime) => {
+                    if (rampTime === undefined) {
+                        deck.volume = v;
+                    } else {
+                        deck.rampVolume(v, this.secondsToSamples(rampTime));
+                    }
+                }
+            };
+        }
+        return parameters;
+    }
+
+    // Start every ramp at its control's current value (inputs are set after construction)
+    private jumpRamps(): void {
+        this.rateRamp.jump(this.rate);
+        this.tempoRamp.jump(this.tempo);
+        this.pitchRamp.jump(this.pitch);
+        this.volumeRamp.jump(this.volume);
+        this.crossfaderRamp.jump(this.crossfader);
+        this.panRamp.jump(this.pan);
+        this.widthRamp.jump(this.stereoWidth);
+        for (let d = 0; d < this.decks.length; d++) {
+            this.decks[d].rampRate(this.decks[d].rate, 0);
+            this.decks[d].rampVolume(this.decks[d].volume, 0);
+        }
+    }
+
+    // Glide each master control towards its current value, one value per sample
+    private fillRampedValues(size: number): void {
+        const frames = this.secondsToSamples(Math.max(0, this.parameterRampTime));
+        this.fillRamp(this.rateRamp, this.rate, this.rateValues, frames, size);
+        this.fillRamp(this.tempoRamp, this.tempo, this.tempoValues, frames, size);
+        this.fillRamp(this.pitchRamp, this.pitch, this.pitchValues, frames, size);
+        this.fillRamp(this.volumeRamp, this.volume, this.volumeValues, frames, size);
+        this.fillRamp(this.crossfaderRamp, this.crossfader, this.crossfaderValues, frames, size);
+        this.fillRamp(this.panRamp, this.pan, this.panValues, frames, size);
+        this.fillRamp(this.widthRamp, this.stereoWidth, this.widthValues, frames, size);
+        for (let d = 0; d < this.decks.length; d++) {
+            this.decks[d].rampFrames = frames;
+        }
+    }
+
+    private fillRamp(ramp: RampedParameter, value: number, values: Float64Array, rampFrames: number, size: number): void {
+        ramp.setTarget(value, rampFrames);
+        ramp.fill(values, size);
+    }
+
+    private createAnalyzer(): void {
+        if (!this.enableAnalysis) {
+            return;
+        }
+        const bands = parseAnalysisBands(this.analysisBands);
+        if (bands.length === 0) {
+            log.warn("No valid analysis bands in \"" + this.analysisBands + "\", using " + DEFAULT_ANALYSIS_BANDS);
+        }
+        this.analyzer = new AudioAnalyzer(this.sampleRate, this.analysisFftSize,
+            bands.length > 0 ? bands : parseAnalysisBands(DEFAULT_ANALYSIS_BANDS));
+        this.analyzer.onsetSensitivity = this.onsetSensitivity;
+    }
+
+    private buildEffectChains(): void {
+        for (let i = 0; i < this.deckEffects.length; i++) {
+            this.addEffect(this.deckEffects[i]);
+        }
+        this.outputLimiter = new Limiter("limiter", this.sampleRate);
+    }
+
+    // Resolve "deckA.<type|fxN>.<param>" and "master.limiter.<param>"
+    private findEffectForParameter(name: string): AudioEffect | null {
+        const parts = name.split(".");
+        if (parts.length !== 3) {
+            return null;
+        }
+
+        if (parts[0] === "master") {
+            return parts[1] === "limiter" ? this.outputLimiter : null;
+        }
+
+        for (let d = 0; d < this.decks.length; d++) {
+            if (parts[0] !== "deck" + this.decks[d].name) {
+                continue;
+            }
+            const chain = this.effectChains[d];
+            const position = /^fx(\d+)$/.exec(parts[1]);
+            return position ? chain.get(parseInt(position[1], 10)) : chain.find(parts[1]);
+        }
+        return null;
+    }
+
+    private effectParameterName(name: string): string {
+        return name.substring(name.lastIndexOf(".") + 1);
+    }
+
+    private secondsToSamples(seconds: number): number {
+        return seconds * this.sampleRate;
+    }
+
+    // Native sample rate of a track, which deck positions are counted in
+    private trackSampleRate(trackIndex: number): number {
+        const loader = this.loaders[trackIndex];
+        return loader ? loader.sampleRate : this.sampleRate;
+    }
+
+    private secondsToTrackFrames(seconds: number, deck: Deck): number {
+        return seconds * (deck.isLoaded ? this.trackSampleRate(deck.loadedTrackIndex) : this.sampleRate);
+    }
+
+    private forEachDeck(deckIndex: number, action: (deck: Deck) => void): void {
+        for (let d = 0; d < this.decks.length; d++) {
+            if (deckIndex < 0 || deckIndex === d) {
+                action(this.decks[d]);
+            }
+        }
+    }
+
+    private resolveTrackIndex(track: AudioTrackAsset | number): number {
+        if (typeof track === "number") {
+            return track;
+        }
+        return this.inputTrack.indexOf(track);
+    }
+
+    private updateCrossfade(): void {
+        if (this.crossfadeSpeed <= 0) {
+            return;
+        }
+
+        const step = this.crossfadeSpeed * getDeltaTime();
+        const remaining = this.crossfadeTarget - this.crossfader;
+        if (Math.abs(remaining) <= step) {
+            this.crossfader = this.crossfadeTarget;
+            this.crossfadeSpeed = 0.0;
+        } else {
+            this.crossfader += Math.sign(remaining) * step;
+        }
+    }
+
+    private ensureMixBuffers(size: number): void {
+        if (this.mixLeft.length >= size) {
+            return;
+        }
+        this.mixLeft = new Float32Array(size);
+        this.mixRight = new Float32Array(size);
+        this.rateValues = new Float64Array(size);
+        this.tempoValues = new Float64Array(size);
+        this.pitchValues = new Float64Array(size);
+        this.volumeValues = new Float64Array(size);
+        this.crossfaderValues = new Float64Array(size);
+        this.panValues = new Float64Array(size);
+        this.widthValues = new Float64Array(size);
+        this.deckVolumeValues = new Float64Array(size);
+        for (let d = 0; d < this.decks.length; d++) {
+            this.deckLeft[d] = new Float32Array(size);
+            this.deckRight[d] = new Float32Array(size);
+        }
+        if (!this.resultFrame || this.resultFrame.length < size * 2) {
+            this.resultFrame = new Float32Array(size * 2);
+        }
+    }
+
+    // Mixes both decks through the equal-power crossfader, then applies
+    // stereo width and pan before writing the (interleaved) output frame.
+    // Every control is read per sample from its ramp.
+    private renderFrame(): void {
+        if (!this.resultFrame) return;
+
+        this.updateCrossfade();
+
+        const size = this.nextFrameSize();
+        if (size <= 0) {
+            return;
+        }
+        this.ensureMixBuffers(size);
+        this.fillRampedValues(size);
+
+        this.mixLeft.fill(0, 0, size);
+        this.mixRight.fill(0, 0, size);
+
+        for (let d = 0; d < this.decks.length; d++) {
+            const deck = this.decks[d];
+            if (!deck.isLoaded) {
+                continue;
+            }
+
+            const left = this.deckLeft[d];
+            const right = this.deckRight[d];
+            // Looping, reverse and pause are handled sample-accurately by the deck
+            deck.render(left, right, size, this.rateValues, this.tempoValues, this.pitchValues, this.interpolation);
+            this.effectChains[d].process(left, right, size);
+            this.updateBeats(d);
+
+            const wraps = deck.takeLoopWraps();
+            if (wraps > 0) {
+                this.onLoopWrapEvent.invoke({
+                    deckIndex: d,
+                    trackIndex: deck.loadedTrackIndex,
+                    wraps: wraps,
+                    loopRegion: deck.hasLoopRegion
+                });
+            }
+
+            deck.fillVolume(this.deckVolumeValues, size);
+            for (let i = 0; i < size; i++) {
+                // Equal-power crossfader: deck A follows the cosine, deck B the sine
+                const angle = Math.max(0.0, Math.min(1.0, this.crossfaderValues[i])) * Math.PI * 0.5;
+                const crossfadeGain = d === 0 ? Math.cos(angle) : Math.sin(angle);
+                const gain = crossfadeGain * this.deckVolumeValues[i] * this.volumeValues[i];
+                this.mixLeft[i] += left[i] * gain;
+                this.mixRight[i] += right[i] * gain;
+            }
+        }
+
+        this.writeOutput(size);
+    }
+
+    // Frames to render this frame: enough to refill the output queue to the
+    // target latency, or the output's preferred size when not adaptive. The
+    // queue is tracked either way so switching modes starts from a valid
+    // level, but underruns are only reported while the scheduler is in use.
+    private nextFrameSize(): number {
+        const underruns = this.outputScheduler.underrunCount;
+        this.outputScheduler.targetLatency = this.targetLatency;
+        this.outputScheduler.maxLatency = Math.max(this.maxLatency, this.targetLatency);
+
+        const maxFrames = this.audioOutput.maxFrameSize || (this.resultFrame as Float32Array).length / 2;
+        const needed = this.outputScheduler.framesNeeded(getTime(), maxFrames);
+        if (this.adaptiveOutput && this.outputScheduler.underrunCount > underruns) {
+            const stats = this.outputScheduler.getStats();
+            log.warn("Output underrun - queue ran dry (" + stats.underruns + " so far)");
+            this.onUnderrunEvent.invoke({ underruns: stats.underruns, underrunFrames: stats.underrunFrames });
+        }
+        return this.adaptiveOutput ? needed : this.audioOutput.getPreferredFrameSize();
+    }
+
+    private writeOutput(size: number): void {
+        const output = this.resultFrame as Float32Array;
+        const left = this.mixLeft;
+        const right = this.mixRight;
 
         for (let i = 0; i < size; i++) {
-            this.phase += this.rate;
-            const audioSourceUpdateData = this.audioData.getElement(Math.round(this.phase)) * this.volume;
-            this.resultFrame[i] = audioSourceUpdateData;
+            // Equal-power pan, normalised so center leaves both channels untouched
+            const panAngle = (Math.max(-1.0, Math.min(1.0, this.panValues[i])) + 1.0) * Math.PI * 0.25;
+            const panLeft = Math.cos(panAngle) * Math.SQRT2;
+            const panRight = Math.sin(panAngle) * Math.SQRT2;
+
+            // Mid/side width
+            const mid = 0.5 * (left[i] + right[i]);
+            const side = 0.5 * (left[i] - right[i]) * this.widthValues[i];
+            left[i] = (mid + side) * panLeft;
+            right[i] = (mid - side) * panRight;
+        }
+
+        if (this.masterLimiter && this.outputLimiter) {
+            this.outputLimiter.render(left, right, size);
+        }
+
+        if (this.analyzer) {
+            this.analyzer.onsetSensitivity = this.onsetSensitivity;
+            this.analyzer.process(left, right, size);
         }
 
-        // Handle looping
-        if (this.phase >= this.audioData.getSize() || this.rate === 0) {
-            this.phase = 0;
+        if (this.outputChannels === 1) {
+            for (let i = 0; i < size; i++) {
+                output[i] = 0.5 * (left[i] + right[i]);
+            }
+            this.audioOutput.enqueueAudioFrame(output, new vec3(size, 1, 1));
+            this.outputScheduler.enqueued(size);
+            return;
+        }
+
+        for (let i = 0; i < size; i++) {
+            output[2 * i] = left[i];
+            output[2 * i + 1] = right[i];
         }
-        
-        this.audioOutput.enqueueAudioFrame(this.resultFrame, new vec3(size, 1, 1));
+        this.audioOutput.enqueueAudioFrame(output, new vec3(size, 2, 1));
+        this.outputScheduler.enqueued(size);
     }
-}
\ No newline at end of file
+}
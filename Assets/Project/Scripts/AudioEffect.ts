@@ -0,0 +1,123 @@
+/**
+ * AudioEffect.ts
+ *
+ * Base class for the stereo insert effects used in AudioController's per-deck
+ * effect chains. Effects process blocks in place and expose their controls as
+ * named parameters so scripts and motion routes can drive them.
+ *
+ * Parameter changes ramp: while a parameter is gliding, render() splits the
+ * block and updates the control every RAMP_BLOCK_FRAMES samples, so effects
+ * only need to handle values that are constant within process(). Effects
+ * that would still step audibly at that control rate (such as a delay time)
+ * interpolate per sample across each process() call themselves.
+ */
+
+import { AudioParameter } from "./AudioParameter";
+import { DEFAULT_RAMP_TIME, RampedParameter } from "./RampedParameter";
+
+// Control-rate step while a parameter ramps (~0.4ms at 44.1kHz)
+const RAMP_BLOCK_FRAMES = 16;
+
+export abstract class AudioEffect {
+    public readonly type: string;
+    public enabled: boolean = true;
+
+    protected readonly sampleRate: number;
+
+    private parameters: { [name: string]: AudioParameter } = {};
+    private ramps: { [name: string]: RampedParameter } = {};
+    // Names of the parameters currently ramping
+    private activeRamps: string[] = [];
+
+    constructor(type: string, sampleRate: number) {
+        this.type = type;
+        this.sampleRate = sampleRate;
+    }
+
+    /**
+     * Process a block of stereo samples in place
+     */
+    public abstract process(left: Float32Array, right: Float32Array, count: number): void;
+
+    /**
+     * Clear internal state such as filter memory or delay lines
+     */
+    public reset(): void {}
+
+    /**
+     * Process a block in place, advancing any parameter ramps through it
+     */
+    public render(left: Float32Array, right: Float32Array, count: number): void {
+        if (this.activeRamps.length === 0) {
+            this.process(left, right, count);
+            return;
+        }
+
+        for (let start = 0; start < count; start += RAMP_BLOCK_FRAMES) {
+            const frames = Math.min(RAMP_BLOCK_FRAMES, count - start);
+            this.advanceRamps(frames);
+            if (start === 0 && frames === count) {
+                this.process(left, right, count);
+            } else {
+                this.process(left.subarray(start, start + frames), right.subarray(start, start + frames), frames);
+            }
+        }
+    }
+
+    /**
+     * Ramp a parameter to a new value
+     * @param rampTime Seconds to reach the value (0 = immediately)
+     * @returns false if there is no parameter with that name
+     */
+    public setParameter(name: string, value: number, rampTime: number = DEFAULT_RAMP_TIME): boolean {
+        const parameter = this.parameters[name];
+        if (!parameter) {
+            return false;
+        }
+
+        const ramp = this.ramps[name];
+        if (rampTime <= 0) {
+            ramp.jump(value);
+            parameter.set(value);
+            return true;
+        }
+        ramp.setTarget(value, rampTime * this.sampleRate);
+        if (ramp.isRamping && this.activeRamps.indexOf(name) < 0) {
+            this.activeRamps.push(name);
+        }
+        return true;
+    }
+
+    /**
+     * Get a parameter by name, or NaN if there is no parameter with that name.
+     * Returns the value last set; the audio may still be gliding towards it.
+     */
+    public getParameter(name: string): number {
+        const parameter = this.parameters[name];
+        if (!parameter) {
+            return NaN;
+        }
+        const ramp = this.ramps[name];
+        return ramp.isRamping ? ramp.target : parameter.get();
+    }
+
+    public getParameterNames(): string[] {
+        return Object.keys(this.parameters);
+    }
+
+    protected defineParameter(name: string, get: () => number, set: (value: number) => void): void {
+        this.parameters[name] = { get: get, set: set };
+        this.ramps[name] = new RampedParameter(get());
+    }
+
+    private advanceRamps(frames: number): void {
+        for (let i = this.activeRamps.length - 1; i >= 0; i--) {
+            const name = this.activeRamps[i];
+            const ramp = this.ramps[name];
+            this.parameters[name].set(ramp.advance(frames));
+            if (!ramp.isRamping) {
+                this.activeRamps.splice(i, 1);
+            }
+        }
+    }
+}
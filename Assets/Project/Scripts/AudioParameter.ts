@@ -0,0 +1,13 @@
+/**
+ * AudioParameter.ts
+ *
+ * A named, script-controllable value such as "rate" or "deckA.volume".
+ * AudioController and the effects expose their controls this way so motion
+ * routes can drive any of them by name.
+ */
+
+export interface AudioParameter {
+    get: () => number;
+    // rampTime: seconds to glide to the value; omitted = the owner's default ramp
+    set: (value: number, rampTime?: number) => void;
+}
@@ -0,0 +1,201 @@
+/**
+ * AudioReactiveMaterial.ts
+ *
+ * Writes AudioController's output analysis into material parameters so
+ * visuals pulse with the audio the motion is bending. Each binding reads one
+ * value (RMS, peak, a spectrum band or the onset pulse), maps it from an
+ * input range to an output range, smooths it and assigns it to a float
+ * parameter on the main pass of every listed material.
+ *
+ * The analysis is updated when the audio renders (LateUpdate), so materials
+ * follow the audio one frame later.
+ */
+
+import { OnsetEvent } from "./AudioAnalyzer";
+import { AudioController } from "./AudioController";
+import { LogLevel, Logger, setCategoryLevel } from "./Logger";
+import { smoothScalar } from "./MotionFilter";
+
+const log = new Logger("AudioReactiveMaterial");
+
+export enum AnalysisValue {
+    Rms = 0,
+    Peak = 1,
+    Band = 2,
+    // 1 on each onset, falling back to 0 over onsetDecay seconds
+    Onset = 3
+}
+
+@typedef
+export class MaterialBinding {
+    @input
+    @hint("Turn this binding on or off")
+    enabled: boolean = true;
+
+    @input
+    @hint("Analysis value to read")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("RMS Level", AnalysisValue.Rms),
+        new ComboBoxItem("Peak Level", AnalysisValue.Peak),
+        new ComboBoxItem("Band", AnalysisValue.Band),
+        new ComboBoxItem("Onset Pulse", AnalysisValue.Onset)
+    ]))
+    value: number = AnalysisValue.Rms;
+
+    @input
+    @hint("Band name for the Band value, as in AudioController's analysisBands (e.g. bass, mid, high)")
+    band: string = "bass";
+
+    @input
+    @hint("Float parameter on the material's main pass, as named in the shader graph")
+    parameter: string = "";
+
+    @input
+    @hint("Analysis value mapped to outputMin")
+    inputMin: number = 0.0;
+
+    @input
+    @hint("Analysis value mapped to outputMax")
+    inputMax: number = 0.5;
+
+    @input
+    @hint("Parameter value at inputMin")
+    outputMin: number = 0.0;
+
+    @input
+    @hint("Parameter value at inputMax")
+    outputMax: number = 1.0;
+
+    @input
+    @hint("Smoothing factor at 60fps (0 = instant, 0.9 = very smooth)")
+    @widget(new SliderWidget(0.0, 0.95, 0.01))
+    smoothing: number = 0.3;
+}
+
+@component
+export class AudioReactiveMaterial extends BaseScriptComponent {
+    @input
+    @hint("AudioController whose output analysis drives the materials (enableAnalysis must be on)")
+    audioController: AudioController;
+
+    @input
+    @hint("Materials to write the parameters to, e.g. PBR")
+    materials: Material[] = [];
+
+    @input
+    @hint("Analysis-to-parameter bindings, all evaluated every frame")
+    bindings: MaterialBinding[] = [];
+
+    @input
+    @hint("Seconds the onset pulse takes to fall from 1 to 0")
+    @widget(new SliderWidget(0.02, 2.0, 0.01))
+    onsetDecay: number = 0.25;
+
+    @input
+    @hint("Log debug output for this component (raises its log level to Debug)")
+    enableDebugLogging: boolean = false;
+
+    private values: number[] = [];
+    private onsetPulse: number = 0;
+    private unsubscribeOnset: (() => void) | null = null;
+
+    onAwake(): void {
+        if (this.enableDebugLogging) {
+            setCategoryLevel(log.category, LogLevel.Debug);
+        }
+
+        if (!this.audioController) {
+            log.error("No AudioController specified!");
+            return;
+        }
+        if (this.materials.length === 0) {
+            log.warn("No materials specified, nothing will be written");
+        }
+
+        this.createEvent("UpdateEvent").bind(() => {
+            this.updateBindings(getDeltaTime());
+        });
+        this.createEvent("OnDestroyEvent").bind(() => {
+            if (this.unsubscribeOnset) {
+                this.unsubscribeOnset();
+            }
+        });
+
+        log.info("Initialized with " + this.bindings.length + " binding(s)");
+    }
+
+    /**
+     * Current (smoothed) value written by a binding, NaN before the first update
+     */
+    public getBindingValue(index: number): number {
+        const value = this.values[index];
+        return value === undefined ? NaN : value;
+    }
+
+    /**
+     * Onset pulse, 1 on an onset and falling to 0 over onsetDecay seconds
+     */
+    public get pulse(): number {
+        return this.onsetPulse;
+    }
+
+    private updateBindings(deltaTime: number): void {
+        const analyzer = this.audioController.getAnalyzer();
+        if (!analyzer) {
+            return;
+        }
+        // The analyzer exists once AudioController has awoken
+        if (!this.unsubscribeOnset) {
+            this.unsubscribeOnset = analyzer.onOnset.add((onset: OnsetEvent) => {
+                this.onsetPulse = 1.0;
+                log.debug("Onset, strength " + onset.strength.toFixed(2));
+            });
+
+            const bandNames = analyzer.getBandNames();
+            this.bindings.forEach((binding, i) => {
+                if (binding.value === AnalysisValue.Band && bandNames.indexOf(binding.band) < 0) {
+                    log.warn("Binding " + i + " reads unknown band \"" + binding.band + "\". Available: " + bandNames.join(", "));
+                }
+            });
+        }
+
+        for (let i = 0; i < this.bindings.length; i++) {
+            const binding = this.bindings[i];
+            if (!binding.enabled || !binding.parameter) {
+                continue;
+            }
+
+            let raw: number;
+            switch (binding.value) {
+                case AnalysisValue.Peak:
+                    raw = analyzer.peak;
+                    break;
+                case AnalysisValue.Band:
+                    raw = analyzer.getBand(binding.band);
+                    break;
+                case AnalysisValue.Onset:
+                    raw = this.onsetPulse;
+                    break;
+                default:
+                    raw = analyzer.rms;
+                    break;
+            }
+
+            const range = binding.inputMax - binding.inputMin;
+            const normalized = range !== 0 ? Math.max(0, Math.min(1, (raw - binding.inputMin) / range)) : 0;
+            const target = binding.outputMin + normalized * (binding.outputMax - binding.outputMin);
+            const previous = this.values[i];
+            const value = previous === undefined ? target : smoothScalar(previous, target, binding.smoothing, deltaTime);
+            this.values[i] = value;
+
+            for (let m = 0; m < this.materials.length; m++) {
+                if (this.materials[m]) {
+                    this.materials[m].mainPass[binding.parameter] = value;
+                }
+            }
+        }
+
+        // Onset pulse falls linearly after each onset
+        this.onsetPulse = this.onsetDecay > 0 ? Math.max(0, this.onsetPulse - deltaTime / this.onsetDecay) : 0;
+    }
+}
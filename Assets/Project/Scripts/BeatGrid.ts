@@ -0,0 +1,341 @@
+/**
+ * BeatGrid.ts
+ *
+ * Tempo map for a track: BPM, the time of the first downbeat and the number
+ * of beats per bar. A grid comes from the track's metadata (e.g. "130bpm" in
+ * the asset name) or is estimated from the audio while the track loads.
+ */
+
+import { FloatArrayWrapper } from "./FloatArrayWrapper";
+
+// Onset envelope resolution: 512 frames is about 11.6ms at 44.1kHz
+const HOP_SIZE = 512;
+// Only the start of the track is analyzed to keep loading fast
+const MAX_ANALYSIS_SECONDS = 60;
+const MIN_ANALYSIS_SECONDS = 4;
+// Tempo search range; anything outside folds in by doubling or halving
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+// Period refinement: candidates around the autocorrelation peak, tried per step
+const PERIOD_SEARCH_RANGE = 1.0;
+const PERIOD_SEARCH_STEP = 0.02;
+const PERIOD_CANDIDATES_PER_STEP = 20;
+
+export class BeatGrid {
+    public bpm: number;
+    // Time of the first downbeat in seconds
+    public downbeatOffset: number;
+    public beatsPerBar: number;
+
+    constructor(bpm: number, downbeatOffset: number = 0.0, beatsPerBar: number = 4) {
+        this.bpm = bpm;
+        this.downbeatOffset = downbeatOffset;
+        this.beatsPerBar = Math.max(1, Math.floor(beatsPerBar));
+    }
+
+    public get secondsPerBeat(): number {
+        return 60.0 / this.bpm;
+    }
+
+    /**
+     * Beat position at a track time; beat 0 is the first downbeat
+     */
+    public beatAt(seconds: number): number {
+        return (seconds - this.downbeatOffset) / this.secondsPerBeat;
+    }
+
+    /**
+     * Bar position at a track time; bar 0 starts at the first downbeat
+     */
+    public barAt(seconds: number): number {
+        return this.beatAt(seconds) / this.beatsPerBar;
+    }
+
+    /**
+     * Track time of a beat
+     */
+    public timeOfBeat(beat: number): number {
+        return this.downbeatOffset + beat * this.secondsPerBeat;
+    }
+}
+
+/**
+ * Read a tempo from a track name such as "SpecsDJ_Celebration130bpm"
+ * @returns The BPM, or 0 if the name doesn't contain one
+ */
+export function parseBpmFromName(name: string): number {
+    const match = /(\d{2,3}(?:\.\d+)?)\s*_?bpm/i.exec(name || "");
+    return match ? parseFloat(match[1]) : 0;
+}
+
+/**
+ * Estimate the beat grid from the audio in one go
+ * @param knownBpm Use this tempo and only estimate the downbeat (0 = estimate both)
+ * @returns null if the track is too short or silent
+ */
+export function estimateBeatGrid(data: FloatArrayWrapper, sampleRate: number,
+                                 beatsPerBar: number = 4, knownBpm: number = 0): BeatGrid | null {
+    const estimator = new BeatGridEstimator(sampleRate, beatsPerBar, knownBpm);
+    while (!estimator.step(data, data.getFrameCount(), true)) {
+        // Each step runs one more part of the analysis
+    }
+    return estimator.result;
+}
+
+/**
+ * Estimates the beat grid from an onset envelope, a block of frames at a time
+ * so the analysis can follow a track that is still decoding: autocorrelation
+ * finds the beat period, then a comb over the envelope finds the beat phase
+ * and which beat of the bar is strongest (the downbeat). Once the audio has
+ * been analyzed, each step runs one part of the search, so no single step
+ * takes long.
+ */
+export class BeatGridEstimator {
+    private readonly sampleRate: number;
+    private readonly beatsPerBar: number;
+    private readonly knownBpm: number;
+
+    // Log energy of each analyzed hop
+    private energy: Float32Array;
+    private hops: number = 0;
+    private done: boolean = false;
+    private estimate: BeatGrid | null = null;
+
+    // Search state once every hop has been analyzed
+    private onsets: Float32Array | null = null;
+    private roughPeriod: number = NaN;
+    private candidatePeriod: number = 0;
+    private period: number = 0;
+    private bestScore: number = -1;
+
+    /**
+     * @param sampleRate Sample rate of the track
+     * @param beatsPerBar Beats in a bar, for finding the downbeat
+     * @param knownBpm Use this tempo and only estimate the downbeat (0 = estimate both)
+     */
+    constructor(sampleRate: number, beatsPerBar: number = 4, knownBpm: number = 0) {
+        this.sampleRate = sampleRate;
+        this.beatsPerBar = Math.max(1, Math.floor(beatsPerBar));
+        this.knownBpm = knownBpm;
+        this.energy = new Float32Array(Math.floor(MAX_ANALYSIS_SECONDS * sampleRate / HOP_SIZE));
+    }
+
+    public get isDone(): boolean {
+        return this.done;
+    }
+
+    /**
+     * The estimated grid once done, or null if the track was too short or silent
+     */
+    public get result(): BeatGrid | null {
+        return this.estimate;
+    }
+
+    /**
+     * Analyze the frames that became available since the last call, or run
+     * the next part of the search once enough of the track has been analyzed
+     * @param data Decoded samples of the track
+     * @param availableFrames Frames decoded so far
+     * @param isComplete Whether the whole track has been decoded
+     * @returns true once the estimate is done
+     */
+    public step(data: FloatArrayWrapper, availableFrames: number, isComplete: boolean): boolean {
+        if (this.done) {
+            return true;
+        }
+        if (this.onsets) {
+            this.search(this.onsets);
+            return this.done;
+        }
+
+        const channels = data.getChannelCount();
+        const hopCount = Math.min(this.energy.length, Math.floor(availableFrames / HOP_SIZE));
+        for (let h = this.hops; h < hopCount; h++) {
+            let sum = 0;
+            for (let i = h * HOP_SIZE; i < (h + 1) * HOP_SIZE; i++) {
+                for (let c = 0; c < channels; c++) {
+                    const sample = data.getSample(i, c);
+                    sum += sample * sample;
+                }
+            }
+            this.energy[h] = Math.log(1e-6 + sum / (HOP_SIZE * channels));
+        }
+        this.hops = Math.max(this.hops, hopCount);
+
+        if (isComplete || this.hops >= this.energy.length) {
+            this.onsets = onsetEnvelope(this.energy.subarray(0, this.hops), this.sampleRate);
+            if (!this.onsets) {
+                this.finish(null);
+            } else if (this.knownBpm > 0) {
+                const hopsPerSecond = this.sampleRate / HOP_SIZE;
+                this.finish(this.gridFromPeriod(this.onsets, 60.0 * hopsPerSecond / this.knownBpm));
+            }
+        }
+        return this.done;
+    }
+
+    // Autocorrelation first, then the period refinement a few candidates at a time
+    private search(onsets: Float32Array): void {
+        if (isNaN(this.roughPeriod)) {
+            this.roughPeriod = autocorrelationPeriod(onsets, this.sampleRate / HOP_SIZE);
+            if (this.roughPeriod <= 0) {
+                this.finish(null);
+                return;
+            }
+            this.period = this.roughPeriod;
+            this.candidatePeriod = this.roughPeriod - PERIOD_SEARCH_RANGE;
+            return;
+        }
+
+        // Refine the period with the comb: autocorrelation lags are whole hops
+        for (let i = 0; i < PERIOD_CANDIDATES_PER_STEP; i++) {
+            if (this.candidatePeriod > this.roughPeriod + PERIOD_SEARCH_RANGE) {
+                this.finish(this.gridFromPeriod(onsets, this.period));
+                return;
+            }
+            const candidate = this.candidatePeriod;
+            const score = combScore(onsets, candidate, bestPhase(onsets, candidate));
+            if (score > this.bestScore) {
+                this.bestScore = score;
+                this.period = candidate;
+            }
+            this.candidatePeriod += PERIOD_SEARCH_STEP;
+        }
+    }
+
+    private finish(estimate: BeatGrid | null): void {
+        this.estimate = estimate;
+        this.done = true;
+        this.onsets = null;
+    }
+
+    // Beat phase and downbeat for a beat period in hops
+    private gridFromPeriod(onsets: Float32Array, period: number): BeatGrid {
+        const hopsPerSecond = this.sampleRate / HOP_SIZE;
+        const phase = bestPhase(onsets, period);
+        const bars = this.beatsPerBar;
+
+        // The downbeat is the beat of the bar with the strongest onsets
+        let downbeat = 0;
+        let downbeatScore = -1;
+        for (let b = 0; b < bars; b++) {
+            const score = combScore(onsets, period * bars, phase + b * period);
+            if (score > downbeatScore) {
+                downbeatScore = score;
+                downbeat = b;
+            }
+        }
+
+        const bpm = 60.0 * hopsPerSecond / period;
+        let offset = (phase + downbeat * period) / hopsPerSecond;
+        // A downbeat just short of a full bar in is really the one at the start
+        if (offset > (bars * period - 2) / hopsPerSecond) {
+            offset -= bars * period / hopsPerSecond;
+        }
+        return new BeatGrid(this.knownBpm > 0 ? this.knownBpm : Math.round(bpm * 100) / 100, offset, bars);
+    }
+}
+
+// Half-wave rectified change in log energy per hop, with the local mean removed
+function onsetEnvelope(energy: Float32Array, sampleRate: number): Float32Array | null {
+    const hops = energy.length;
+    if (hops * HOP_SIZE < MIN_ANALYSIS_SECONDS * sampleRate) {
+        return null;
+    }
+
+    const onsets = new Float32Array(hops);
+    let total = 0;
+    for (let h = 1; h < hops; h++) {
+        onsets[h] = Math.max(0, energy[h] - energy[h - 1]);
+        total += onsets[h];
+    }
+    if (total <= 0) {
+        return null;
+    }
+
+    // Remove the local mean so sustained noise doesn't look like a beat
+    const halfWindow = 8;
+    const result = new Float32Array(hops);
+    for (let h = 0; h < hops; h++) {
+        let sum = 0;
+        let count = 0;
+        for (let k = Math.max(0, h - halfWindow); k <= Math.min(hops - 1, h + halfWindow); k++) {
+            sum += onsets[k];
+            count++;
+        }
+        result[h] = Math.max(0, onsets[h] - sum / count);
+    }
+    return result;
+}
+
+// Beat period in hops with the strongest autocorrelation, favouring lags whose
+// double also correlates so the estimate doesn't lock onto off-beats
+function autocorrelationPeriod(onsets: Float32Array, hopsPerSecond: number): number {
+    const minLag = Math.floor(60.0 * hopsPerSecond / MAX_BPM);
+    const maxLag = Math.ceil(60.0 * hopsPerSecond / MIN_BPM);
+    if (onsets.length <= maxLag * 2) {
+        return 0;
+    }
+
+    const correlation = (lag: number): number => {
+        let sum = 0;
+        for (let i = 0; i + lag < onsets.length; i++) {
+            sum += onsets[i] * onsets[i + lag];
+        }
+        return sum / (onsets.length - lag);
+    };
+
+    const scores: number[] = [];
+    let bestLag = 0;
+    let bestScore = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        const score = correlation(lag) + 0.5 * correlation(lag * 2);
+        scores[lag] = score;
+        if (score > bestScore) {
+            bestScore = score;
+            bestLag = lag;
+        }
+    }
+    if (bestLag === 0) {
+        return 0;
+    }
+
+    // Parabolic interpolation between neighbouring lags
+    if (bestLag > minLag && bestLag < maxLag) {
+        const a = scores[bestLag - 1];
+        const b = scores[bestLag];
+        const c = scores[bestLag + 1];
+        const denominator = a - 2 * b + c;
+        if (denominator < 0) {
+            return bestLag + 0.5 * (a - c) / denominator;
+        }
+    }
+    return bestLag;
+}
+
+// Phase (in hops, within one period) where the comb lines up with the most onsets
+function bestPhase(onsets: Float32Array, period: number): number {
+    let phase = 0;
+    let bestScore = -1;
+    for (let candidate = 0; candidate < period; candidate++) {
+        const score = combScore(onsets, period, candidate);
+        if (score > bestScore) {
+            bestScore = score;
+            phase = candidate;
+        }
+    }
+    return phase;
+}
+
+// Mean onset strength at every period, counting the neighbouring hops too
+// because an onset can straddle two hops
+function combScore(onsets: Float32Array, period: number, phase: number): number {
+    let sum = 0;
+    let count = 0;
+    for (let position = phase; position < onsets.length; position += period) {
+        const hop = Math.round(position);
+        sum += (onsets[hop - 1] || 0) + (onsets[hop] || 0) + (onsets[hop + 1] || 0);
+        count++;
+    }
+    return count > 0 ? sum / count : 0;
+}
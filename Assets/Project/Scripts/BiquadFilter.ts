@@ -0,0 +1,130 @@
+/**
+ * BiquadFilter.ts
+ *
+ * Resonant low-pass, high-pass and band-pass filter (RBJ Audio EQ Cookbook
+ * biquads). Coefficients are only recalculated when cutoff or Q change, so
+ * sweeping the cutoff from motion every frame stays cheap.
+ */
+
+import { AudioEffect } from "./AudioEffect";
+
+export enum FilterType {
+    LowPass = 0,
+    HighPass = 1,
+    BandPass = 2
+}
+
+export class BiquadFilter extends AudioEffect {
+    // Cutoff / center frequency in Hz
+    private cutoff: number = 1000;
+    // Resonance (0.707 = no peak)
+    private q: number = 0.707;
+    private mix: number = 1.0;
+
+    private filterType: FilterType;
+    private isDirty: boolean = true;
+
+    // Normalised coefficients
+    private b0: number = 1;
+    private b1: number = 0;
+    private b2: number = 0;
+    private a1: number = 0;
+    private a2: number = 0;
+
+    // Direct form I state per channel
+    private leftX1: number = 0;
+    private leftX2: number = 0;
+    private leftY1: number = 0;
+    private leftY2: number = 0;
+    private rightX1: number = 0;
+    private rightX2: number = 0;
+    private rightY1: number = 0;
+    private rightY2: number = 0;
+
+    constructor(type: string, filterType: FilterType, sampleRate: number) {
+        super(type, sampleRate);
+        this.filterType = filterType;
+        this.cutoff = filterType === FilterType.HighPass ? 200 : 1000;
+
+        this.defineParameter("cutoff", () => this.cutoff, (v) => {
+            this.cutoff = Math.max(10, Math.min(this.sampleRate * 0.49, v));
+            this.isDirty = true;
+        });
+        this.defineParameter("q", () => this.q, (v) => {
+            this.q = Math.max(0.1, Math.min(20, v));
+            this.isDirty = true;
+        });
+        this.defineParameter("mix", () => this.mix, (v) => {
+            this.mix = Math.max(0, Math.min(1, v));
+        });
+    }
+
+    public reset(): void {
+        this.leftX1 = this.leftX2 = this.leftY1 = this.leftY2 = 0;
+        this.rightX1 = this.rightX2 = this.rightY1 = this.rightY2 = 0;
+    }
+
+    public process(left: Float32Array, right: Float32Array, count: number): void {
+        if (this.isDirty) {
+            this.updateCoefficients();
+        }
+
+        const dry = 1.0 - this.mix;
+        const wet = this.mix;
+
+        for (let i = 0; i < count; i++) {
+            const inL = left[i];
+            const outL = this.b0 * inL + this.b1 * this.leftX1 + this.b2 * this.leftX2 - this.a1 * this.leftY1 - this.a2 * this.leftY2;
+            this.leftX2 = this.leftX1;
+            this.leftX1 = inL;
+            this.leftY2 = this.leftY1;
+            this.leftY1 = outL;
+
+            const inR = right[i];
+            const outR = this.b0 * inR + this.b1 * this.rightX1 + this.b2 * this.rightX2 - this.a1 * this.rightY1 - this.a2 * this.rightY2;
+            this.rightX2 = this.rightX1;
+            this.rightX1 = inR;
+            this.rightY2 = this.rightY1;
+            this.rightY1 = outR;
+
+            left[i] = inL * dry + outL * wet;
+            right[i] = inR * dry + outR * wet;
+        }
+    }
+
+    private updateCoefficients(): void {
+        const w0 = 2 * Math.PI * this.cutoff / this.sampleRate;
+        const cosW0 = Math.cos(w0);
+        const alpha = Math.sin(w0) / (2 * this.q);
+
+        let b0: number;
+        let b1: number;
+        let b2: number;
+        switch (this.filterType) {
+            case FilterType.HighPass:
+                b0 = (1 + cosW0) / 2;
+                b1 = -(1 + cosW0);
+                b2 = (1 + cosW0) / 2;
+                break;
+            case FilterType.BandPass:
+                // Constant 0 dB peak gain
+                b0 = alpha;
+                b1 = 0;
+                b2 = -alpha;
+                break;
+            default:
+                b0 = (1 - cosW0) / 2;
+                b1 = 1 - cosW0;
+                b2 = (1 - cosW0) / 2;
+                break;
+        }
+
+        const a0 = 1 + alpha;
+        this.b0 = b0 / a0;
+        this.b1 = b1 / a0;
+        this.b2 = b2 / a0;
+        this.a1 = (-2 * cosW0) / a0;
+        this.a2 = (1 - alpha) / a0;
+        this.isDirty = false;
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * Bitcrusher.ts
+ *
+ * Lo-fi effect: reduces bit depth and holds samples to fake a lower sample rate.
+ */
+
+import { AudioEffect } from "./AudioEffect";
+
+export class Bitcrusher extends AudioEffect {
+    // Bit depth (1..16)
+    private bits: number = 8;
+    // Hold each sample for this many output samples (1 = off)
+    private downsample: number = 4;
+    private mix: number = 1.0;
+
+    private holdCounter: number = 0;
+    private heldLeft: number = 0;
+    private heldRight: number = 0;
+
+    constructor(type: string, sampleRate: number) {
+        super(type, sampleRate);
+        this.defineParameter("bits", () => this.bits, (v) => {
+            this.bits = Math.max(1, Math.min(16, v));
+        });
+        this.defineParameter("downsample", () => this.downsample, (v) => {
+            this.downsample = Math.max(1, Math.min(64, v));
+        });
+        this.defineParameter("mix", () => this.mix, (v) => {
+            this.mix = Math.max(0, Math.min(1, v));
+        });
+    }
+
+    public reset(): void {
+        this.holdCounter = 0;
+        this.heldLeft = 0;
+        this.heldRight = 0;
+    }
+
+    public process(left: Float32Array, right: Float32Array, count: number): void {
+        const levels = Math.pow(2, this.bits - 1);
+        const dry = 1.0 - this.mix;
+        const wet = this.mix;
+
+        for (let i = 0; i < count; i++) {
+            if (this.holdCounter <= 0) {
+                this.heldLeft = Math.round(left[i] * levels) / levels;
+                this.heldRight = Math.round(right[i] * levels) / levels;
+                this.holdCounter += this.downsample;
+            }
+            this.holdCounter -= 1;
+
+            left[i] = left[i] * dry + this.heldLeft * wet;
+            right[i] = right[i] * dry + this.heldRight * wet;
+        }
+    }
+}
@@ -0,0 +1,444 @@
+/**
+ * Deck.ts
+ *
+ * A single playback deck for AudioController. Each deck holds one decoded
+ * track together with its own playhead (phase), rate and volume, so two
+ * decks can run side by side and be mixed with the crossfader.
+ *
+ * Transport is sample-accurate: loop regions wrap inside the render loop,
+ * negative rates play in reverse, a rate of 0 holds the playhead, and every
+ * jump (loop wrap, seek, cue) is smoothed with a short crossfade.
+ *
+ * Rate and volume changes glide over rampFrames samples, and the master
+ * controls arrive as per-sample values, so speed changes are continuous.
+ *
+ * Positions are in frames of the loaded track. A track recorded at another
+ * sample rate than the output advances by the ratio of the two per output
+ * sample, read through the band-limited sinc resampler so it plays at its
+ * original pitch at rate 1.
+ */
+
+import { FloatArrayWrapper } from "./FloatArrayWrapper";
+import { RampedParameter } from "./RampedParameter";
+import { InterpolationMode, readInterpolated } from "./Resampler";
+import { TimeStretcher } from "./TimeStretcher";
+
+// Length of the declick fades used for jumps and play/pause (~6ms at 44.1kHz)
+const DEFAULT_CROSSFADE_FRAMES = 256;
+
+export class Deck {
+    public readonly name: string;
+
+    // Per-deck controls, multiplied with the controller's master rate/volume
+    public rate: number = 1.0;
+    public volume: number = 1.0;
+
+    // Wrap to the start of the track at the end (or the end, when reversing)
+    public loopTrack: boolean = true;
+
+    // Declick fade length for jumps, play and pause
+    public crossfadeFrames: number = DEFAULT_CROSSFADE_FRAMES;
+
+    // Samples rate and volume take to reach a new value (0 = jump)
+    public rampFrames: number = 0;
+
+    private rateRamp: RampedParameter = new RampedParameter(1.0);
+    private volumeRamp: RampedParameter = new RampedParameter(1.0);
+
+    private audioData: FloatArrayWrapper | null = null;
+    private trackIndex: number = -1;
+    private phase: number = 0.0;
+    // Track frames per output sample at rate 1 (track rate / output rate)
+    private sampleRateRatio: number = 1.0;
+
+    // Used whenever tempo and pitch differ. After a jump the grains from
+    // before it keep playing in fadeStretcher during the jump crossfade.
+    private stretcher: TimeStretcher = new TimeStretcher();
+    private fadeStretcher: TimeStretcher = new TimeStretcher();
+    private isStretching: boolean = false;
+    private stretchJumpPending: boolean = false;
+    private stretchFrame: Float32Array = new Float32Array(2);
+    private fadeFrame: Float32Array = new Float32Array(2);
+
+    // Transport
+    private playing: boolean = true;
+    private transportGain: number = 1.0;
+
+    // A/B loop region in frames (inactive while loopEnd <= loopStart)
+    private loopStart: number = 0;
+    private loopEnd: number = 0;
+
+    // Cue points in frames, indexed by cue slot
+    private cuePoints: number[] = [];
+
+    // Jump crossfade: the old playhead keeps playing at phase + jumpOffset while fading out
+    private jumpOffset: number = 0;
+    private jumpFadeRemaining: number = 0;
+
+    // Loop wraps since the last takeLoopWraps()
+    private loopWraps: number = 0;
+
+    constructor(name: string) {
+        this.name = name;
+    }
+
+    public get isLoaded(): boolean {
+        return this.audioData !== null;
+    }
+
+    public get isPlaying(): boolean {
+        return this.playing;
+    }
+
+    public get loadedTrackIndex(): number {
+        return this.trackIndex;
+    }
+
+    public get position(): number {
+        return this.phase;
+    }
+
+    /**
+     * Track sample rate divided by the output sample rate
+     */
+    public get trackRateRatio(): number {
+        return this.sampleRateRatio;
+    }
+
+    /**
+     * Track length in frames
+     */
+    public get length(): number {
+        return this.audioData ? this.audioData.getFrameCount() : 0;
+    }
+
+    public get hasLoopRegion(): boolean {
+        return this.loopEnd > this.loopStart;
+    }
+
+    /**
+     * Load decoded track data onto this deck. Loop region and cue points are
+     * cleared because they belong to the previous track.
+     * @param audioData Decoded samples of the track
+     * @param trackIndex Index of the track in AudioController.inputTrack
+     * @param startPhase Playhead position to start from (wrapped into the track length)
+     * @param sampleRateRatio Track sample rate divided by the output sample rate
+     */
+    public load(audioData: FloatArrayWrapper, trackIndex: number, startPhase: number = 0.0, sampleRateRatio: number = 1.0): void {
+        this.audioData = audioData;
+        this.trackIndex = trackIndex;
+        this.sampleRateRatio = sampleRateRatio > 0 ? sampleRateRatio : 1.0;
+        this.phase = this.wrapToTrack(startPhase);
+        this.jumpFadeRemaining = 0;
+        this.loopStart = 0;
+        this.loopEnd = 0;
+        this.cuePoints = [];
+        this.stretcher.reset();
+        this.stretchJumpPending = false;
+    }
+
+    /**
+     * Change the rate over a ramp of a given length instead of rampFrames
+     */
+    public rampRate(value: number, rampFrames: number): void {
+        this.rate = value;
+        this.rateRamp.setTarget(value, rampFrames);
+    }
+
+    /**
+     * Change the volume over a ramp of a given length instead of rampFrames
+     */
+    public rampVolume(value: number, rampFrames: number): void {
+        this.volume = value;
+        this.volumeRamp.setTarget(value, rampFrames);
+    }
+
+    /**
+     * Write the deck volume for each of the next count samples, advancing
+     * its ramp
+     */
+    public fillVolume(buffer: Float64Array, count: number): void {
+        this.volumeRamp.setTarget(this.volume, this.rampFrames);
+        this.volumeRamp.fill(buffer, count);
+    }
+
+    /**
+     * Remove the track from this deck
+     */
+    public eject(): void {
+        this.audioData = null;
+        this.trackIndex = -1;
+        this.phase = 0.0;
+        this.jumpFadeRemaining = 0;
+    }
+
+    /**
+     * Start or resume playback (fades in)
+     */
+    public play(): void {
+        this.playing = true;
+    }
+
+    /**
+     * Pause playback, holding the playhead (fades out)
+     */
+    public pause(): void {
+        this.playing = false;
+    }
+
+    /**
+     * Move the playhead to a frame position, wrapped into the track length
+     */
+    public seek(samplePosition: number): void {
+        if (this.length <= 0) {
+            this.phase = 0.0;
+            return;
+        }
+        this.jumpTo(this.wrapToTrack(samplePosition));
+    }
+
+    /**
+     * Store a cue point
+     * @param cueIndex Cue slot
+     * @param samplePosition Position in frames
+     */
+    public setCuePoint(cueIndex: number, samplePosition: number): void {
+        this.cuePoints[cueIndex] = Math.max(0, samplePosition);
+    }
+
+    /**
+     * Get a stored cue point in frames, or -1 if the slot is empty
+     */
+    public getCuePoint(cueIndex: number): number {
+        const cue = this.cuePoints[cueIndex];
+        return cue === undefined ? -1 : cue;
+    }
+
+    public clearCuePoint(cueIndex: number): void {
+        delete this.cuePoints[cueIndex];
+    }
+
+    /**
+     * Jump to a stored cue point
+     * @returns false if the cue slot is empty
+     */
+    public jumpToCue(cueIndex: number): boolean {
+        const cue = this.getCuePoint(cueIndex);
+        if (cue < 0) {
+            return false;
+        }
+        this.seek(cue);
+        return true;
+    }
+
+    /**
+     * Set the A/B loop region in frames. The playhead wraps sample-accurately
+     * between A and B in either direction; while it is outside the region it
+     * plays on until it enters it.
+     */
+    public setLoop(loopStart: number, loopEnd: number): void {
+        const start = Math.max(0, Math.min(loopStart, loopEnd));
+        const end = Math.min(this.length, Math.max(loopStart, loopEnd));
+        this.loopStart = start;
+        this.loopEnd = end;
+    }
+
+    public clearLoop(): void {
+        this.loopStart = 0;
+        this.loopEnd = 0;
+    }
+
+    /**
+     * Number of times the playhead wrapped around the loop region or the
+     * track since the last call
+     */
+    public takeLoopWraps(): number {
+        const wraps = this.loopWraps;
+        this.loopWraps = 0;
+        return wraps;
+    }
+
+    /**
+     * Advance the playhead and render a block of stereo samples (before deck volume).
+     * Mono tracks are copied to both channels. The varispeed rate changes speed
+     * and pitch together; tempo and pitch scale them independently through the
+     * time stretcher. Negative rates play backwards.
+     * @param left Receives the left channel
+     * @param right Receives the right channel
+     * @param count Number of frames to render
+     * @param masterRate Rate multiplier applied on top of the deck rate, per sample
+     * @param tempo Speed multiplier that keeps pitch, per sample
+     * @param pitch Pitch multiplier that keeps tempo, per sample
+     * @param interpolation How to read between source frames (always sinc while the track's sample rate differs from the output's)
+     */
+    public render(left: Float32Array, right: Float32Array, count: number, masterRate: Float64Array, tempo: Float64Array, pitch: Float64Array, interpolation: InterpolationMode): void {
+        this.rateRamp.setTarget(this.rate, this.rampFrames);
+        if (!this.audioData) {
+            this.rateRamp.advance(count);
+            left.fill(0, 0, count);
+            right.fill(0, 0, count);
+            return;
+        }
+
+        const data = this.audioData;
+        let stretch = false;
+        for (let i = 0; i < count && !stretch; i++) {
+            stretch = tempo[i] !== pitch[i];
+        }
+        const isMono = data.getChannelCount() === 1;
+        const ratio = this.sampleRateRatio;
+        // Converting the sample rate needs the band-limited resampler
+        const mode = ratio !== 1.0 ? InterpolationMode.Sinc : interpolation;
+        const gainStep = 1.0 / Math.max(1, this.crossfadeFrames);
+
+        if (stretch && !this.isStretching) {
+            this.stretcher.reset();
+            this.stretchJumpPending = false;
+        }
+        this.isStretching = stretch;
+
+        for (let i = 0; i < count; i++) {
+            const varispeed = this.rateRamp.next() * masterRate[i];
+            const speed = varispeed * tempo[i] * ratio;
+
+            // Declick play/pause
+            const targetGain = this.playing ? 1.0 : 0.0;
+            if (this.transportGain !== targetGain) {
+                this.transportGain = this.playing ?
+                    Math.min(1.0, this.transportGain + gainStep) :
+                    Math.max(0.0, this.transportGain - gainStep);
+            }
+            if (this.transportGain <= 0.0) {
+                left[i] = 0;
+                right[i] = 0;
+                continue;
+            }
+
+            const previousPhase = this.phase;
+            this.phase += speed;
+            this.applyBoundaries(speed, previousPhase);
+
+            if (stretch) {
+                const grainPitch = varispeed * pitch[i] * ratio;
+                if (this.stretchJumpPending) {
+                    // Grains from before the jump fade out. New ones start at the new
+                    // position, keeping the old grains' offset from the playhead so a
+                    // loop of whole cycles stays in phase.
+                    const outgoing = this.stretcher;
+                    const carried = outgoing.readPosition - this.jumpOffset;
+                    this.stretcher = this.fadeStretcher;
+                    this.fadeStretcher = outgoing;
+                    this.stretcher.startAt(isNaN(carried) ? this.phase : carried, grainPitch);
+                    this.stretchJumpPending = false;
+                }
+                this.stretcher.nextFrame(data, this.phase, grainPitch, mode, this.stretchFrame);
+                left[i] = this.stretchFrame[0];
+                right[i] = this.stretchFrame[1];
+
+                if (this.jumpFadeRemaining > 0) {
+                    const fade = this.jumpFadeRemaining / Math.max(1, this.crossfadeFrames);
+                    this.fadeStretcher.nextFrame(data, this.phase + this.jumpOffset, grainPitch, mode, this.fadeFrame);
+                    left[i] = left[i] * (1.0 - fade) + this.fadeFrame[0] * fade;
+                    right[i] = right[i] * (1.0 - fade) + this.fadeFrame[1] * fade;
+                }
+            } else {
+                this.stretchJumpPending = false;
+                const step = Math.abs(speed);
+                left[i] = readInterpolated(data, this.phase, mode, 0, step);
+                right[i] = isMono ? left[i] : readInterpolated(data, this.phase, mode, 1, step);
+
+                if (this.jumpFadeRemaining > 0) {
+                    // Fade out the audio from before the jump
+                    const fade = this.jumpFadeRemaining / Math.max(1, this.crossfadeFrames);
+                    const oldPosition = this.phase + this.jumpOffset;
+                    const oldLeft = readInterpolated(data, oldPosition, mode, 0, step);
+                    const oldRight = isMono ? oldLeft : readInterpolated(data, oldPosition, mode, 1, step);
+                    left[i] = left[i] * (1.0 - fade) + oldLeft * fade;
+                    right[i] = right[i] * (1.0 - fade) + oldRight * fade;
+                }
+            }
+
+            if (this.jumpFadeRemaining > 0) {
+                this.jumpFadeRemaining--;
+            }
+
+            left[i] *= this.transportGain;
+            right[i] *= this.transportGain;
+        }
+    }
+
+    // Wrap or stop at the loop region / track edges right after the playhead moved
+    private applyBoundaries(speed: number, previousPhase: number): void {
+        if (this.hasLoopRegion && this.wrapLoopRegion(speed, previousPhase)) {
+            return;
+        }
+
+        const end = this.length;
+        if (end <= 0) {
+            return;
+        }
+
+        if (speed > 0 && this.phase >= end) {
+            if (this.loopTrack) {
+                this.jumpTo(this.phase % end);
+                this.loopWraps++;
+            } else {
+                this.stopAtEdge(end - 1);
+            }
+        } else if (speed < 0 && this.phase < 0) {
+            if (this.loopTrack) {
+                this.jumpTo(end - ((-this.phase) % end));
+                this.loopWraps++;
+            } else {
+                this.stopAtEdge(0);
+            }
+        }
+    }
+
+    // Wrap a playhead that left the loop region from inside it. One that was
+    // outside (the region was set ahead of it, or behind it while reversing)
+    // plays on until it enters the region.
+    private wrapLoopRegion(speed: number, previousPhase: number): boolean {
+        const start = this.loopStart;
+        const end = this.loopEnd;
+        const span = end - start;
+        if (span <= 0 || previousPhase < start || previousPhase >= end) {
+            return false;
+        }
+
+        if (speed > 0 && this.phase >= end) {
+            this.jumpTo(start + ((this.phase - start) % span));
+        } else if (speed < 0 && this.phase < start) {
+            this.jumpTo(end - ((start - this.phase) % span));
+        } else {
+            return false;
+        }
+        this.loopWraps++;
+        return true;
+    }
+
+    // The track has ended: go silent at once rather than holding the edge
+    // sample through the pause fade, which would be a DC step and a click
+    private stopAtEdge(edgePhase: number): void {
+        this.phase = edgePhase;
+        this.playing = false;
+        this.transportGain = 0.0;
+        this.jumpFadeRemaining = 0;
+    }
+
+    // Move the playhead and crossfade from the old position
+    private jumpTo(newPhase: number): void {
+        this.jumpOffset = this.phase - newPhase;
+        this.jumpFadeRemaining = this.crossfadeFrames;
+        this.phase = newPhase;
+        this.stretchJumpPending = true;
+    }
+
+    private wrapToTrack(samplePosition: number): number {
+        const size = this.length;
+        if (size <= 0) {
+            return 0.0;
+        }
+        return ((samplePosition % size) + size) % size;
+    }
+}
@@ -0,0 +1,78 @@
+/**
+ * DelayEffect.ts
+ *
+ * Stereo feedback delay (echo) with a fractional, smoothly readable delay time
+ * of up to two seconds.
+ */
+
+import { AudioEffect } from "./AudioEffect";
+
+const MAX_DELAY_SECONDS = 2.0;
+
+export class DelayEffect extends AudioEffect {
+    // Delay time in seconds
+    private time: number = 0.375;
+    private feedback: number = 0.4;
+    private mix: number = 0.3;
+    // Delay in samples at the last processed sample; glides to the time
+    // parameter across each block, since a stepped delay time clicks
+    private delaySamples: number;
+
+    private bufferLeft: Float32Array;
+    private bufferRight: Float32Array;
+    private writeIndex: number = 0;
+
+    constructor(type: string, sampleRate: number) {
+        super(type, sampleRate);
+        const size = Math.ceil(MAX_DELAY_SECONDS * sampleRate) + 2;
+        this.bufferLeft = new Float32Array(size);
+        this.bufferRight = new Float32Array(size);
+        this.delaySamples = this.time * sampleRate;
+
+        this.defineParameter("time", () => this.time, (v) => {
+            this.time = Math.max(0.001, Math.min(MAX_DELAY_SECONDS, v));
+        });
+        this.defineParameter("feedback", () => this.feedback, (v) => {
+            this.feedback = Math.max(0, Math.min(0.95, v));
+        });
+        this.defineParameter("mix", () => this.mix, (v) => {
+            this.mix = Math.max(0, Math.min(1, v));
+        });
+    }
+
+    public reset(): void {
+        this.bufferLeft.fill(0);
+        this.bufferRight.fill(0);
+        this.writeIndex = 0;
+        this.delaySamples = this.time * this.sampleRate;
+    }
+
+    public process(left: Float32Array, right: Float32Array, count: number): void {
+        const size = this.bufferLeft.length;
+        const delayStep = (this.time * this.sampleRate - this.delaySamples) / count;
+        const dry = 1.0 - this.mix;
+        const wet = this.mix;
+
+        for (let i = 0; i < count; i++) {
+            // Linear interpolation between the two taps around the delay time
+            this.delaySamples += delayStep;
+            let readPosition = this.writeIndex - this.delaySamples;
+            if (readPosition < 0) {
+                readPosition += size;
+            }
+            const index0 = Math.floor(readPosition);
+            const index1 = (index0 + 1) % size;
+            const frac = readPosition - index0;
+
+            const delayedL = this.bufferLeft[index0] + (this.bufferLeft[index1] - this.bufferLeft[index0]) * frac;
+            const delayedR = this.bufferRight[index0] + (this.bufferRight[index1] - this.bufferRight[index0]) * frac;
+
+            this.bufferLeft[this.writeIndex] = left[i] + delayedL * this.feedback;
+            this.bufferRight[this.writeIndex] = right[i] + delayedR * this.feedback;
+            this.writeIndex = (this.writeIndex + 1) % size;
+
+            left[i] = left[i] * dry + delayedL * wet;
+            right[i] = right[i] * dry + delayedR * wet;
+        }
+    }
+}
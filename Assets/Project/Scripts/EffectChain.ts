@@ -0,0 +1,110 @@
+/**
+ * EffectChain.ts
+ *
+ * Ordered list of insert effects processed one after another on a stereo
+ * block. Each deck in AudioController owns one chain.
+ */
+
+import { AudioEffect } from "./AudioEffect";
+import { BiquadFilter, FilterType } from "./BiquadFilter";
+import { Bitcrusher } from "./Bitcrusher";
+import { DelayEffect } from "./DelayEffect";
+import { Limiter } from "./Limiter";
+import { ReverbEffect } from "./ReverbEffect";
+
+// Names accepted by createEffect
+export const EFFECT_TYPES = ["lowpass", "highpass", "bandpass", "delay", "reverb", "bitcrusher", "limiter"];
+
+/**
+ * Create an effect from its type name
+ * @param type One of EFFECT_TYPES (case-insensitive)
+ * @returns null for unknown types
+ */
+export function createEffect(type: string, sampleRate: number): AudioEffect | null {
+    const name = type.trim().toLowerCase();
+    switch (name) {
+        case "lowpass":
+            return new BiquadFilter(name, FilterType.LowPass, sampleRate);
+        case "highpass":
+            return new BiquadFilter(name, FilterType.HighPass, sampleRate);
+        case "bandpass":
+            return new BiquadFilter(name, FilterType.BandPass, sampleRate);
+        case "delay":
+            return new DelayEffect(name, sampleRate);
+        case "reverb":
+            return new ReverbEffect(name, sampleRate);
+        case "bitcrusher":
+            return new Bitcrusher(name, sampleRate);
+        case "limiter":
+            return new Limiter(name, sampleRate);
+        default:
+            return null;
+    }
+}
+
+export class EffectChain {
+    private effects: AudioEffect[] = [];
+
+    public get length(): number {
+        return this.effects.length;
+    }
+
+    /**
+     * Append an effect, or insert it at a position in the chain
+     * @returns Index of the effect in the chain
+     */
+    public add(effect: AudioEffect, index: number = -1): number {
+        if (index < 0 || index >= this.effects.length) {
+            this.effects.push(effect);
+            return this.effects.length - 1;
+        }
+        this.effects.splice(index, 0, effect);
+        return index;
+    }
+
+    public remove(index: number): AudioEffect | null {
+        if (index < 0 || index >= this.effects.length) {
+            return null;
+        }
+        return this.effects.splice(index, 1)[0];
+    }
+
+    /**
+     * Move an effect to another position in the processing order
+     */
+    public move(fromIndex: number, toIndex: number): void {
+        const effect = this.remove(fromIndex);
+        if (effect) {
+            this.add(effect, toIndex);
+        }
+    }
+
+    public get(index: number): AudioEffect | null {
+        return this.effects[index] || null;
+    }
+
+    /**
+     * First effect of a type, e.g. "lowpass"
+     */
+    public find(type: string): AudioEffect | null {
+        for (let i = 0; i < this.effects.length; i++) {
+            if (this.effects[i].type === type) {
+                return this.effects[i];
+            }
+        }
+        return null;
+    }
+
+    public reset(): void {
+        this.effects.forEach((effect) => effect.reset());
+    }
+
+    public process(left: Float32Array, right: Float32Array, count: number): void {
+        for (let i = 0; i < this.effects.length; i++) {
+            const effect = this.effects[i];
+            if (effect.enabled) {
+                effect.render(left, right, count);
+            }
+        }
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * Event.ts
+ *
+ * Minimal typed event with subscribe/unsubscribe, following the same shape as
+ * the Spectacles Interaction Kit's Event so scripts can use either the same way.
+ */
+
+export type callback<Arg> = (args: Arg) => void;
+export type unsubscribe = () => void;
+
+/**
+ * Public side of an event: subscribers can add and remove handlers but not invoke
+ */
+export interface PublicApi<Arg> {
+    (cb: callback<Arg>): unsubscribe;
+    add(cb: callback<Arg>): unsubscribe;
+    remove(cb: callback<Arg>): void;
+}
+
+export class Event<Arg = void> {
+    private subscribers: callback<Arg>[] = [];
+
+    /**
+     * Register an event handler
+     * @returns Function that unregisters the handler
+     */
+    public add(handler: callback<Arg>): unsubscribe {
+        this.subscribers.push(handler);
+        return () => this.remove(handler);
+    }
+
+    /**
+     * Unregister an event handler
+     */
+    public remove(handler: callback<Arg>): void {
+        this.subscribers = this.subscribers.filter((h) => h !== handler);
+    }
+
+    /**
+     * Notify all handlers
+     */
+    public invoke(arg: Arg): void {
+        // Copy so handlers can unsubscribe while being notified
+        const handlers = this.subscribers.slice();
+        for (let i = 0; i < handlers.length; i++) {
+            handlers[i](arg);
+        }
+    }
+
+    public get hasSubscribers(): boolean {
+        return this.subscribers.length > 0;
+    }
+
+    /**
+     * Object to expose publicly: callable like add(), plus add/remove,
+     * without giving callers access to invoke()
+     */
+    public publicApi(): PublicApi<Arg> {
+        const fn = this.add.bind(this);
+        return Object.assign(fn, { add: this.add.bind(this), remove: this.remove.bind(this) });
+    }
+}
@@ -3,84 +3,230 @@
  * 
  * TypeScript conversion of FloatArrayWrapper.js from DJ Specs project.
  * Provides efficient storage and access for large audio sample arrays
- * by splitting them into manageable chunks.
+ * by splitting them into manageable chunks. Multichannel audio is stored
+ * interleaved (L, R, L, R, ...) and addressed by frame and channel.
+ *
+ * Element indices never change once written: shift() and cache eviction drop
+ * chunks without moving the rest. Reading a dropped chunk returns silence
+ * until it is written again (see TrackLoader).
  */
 
+import { Logger } from "./Logger";
+
+const log = new Logger("FloatArrayWrapper");
+
 export class FloatArrayWrapper {
-    private dataList: Float32Array[] = [];
+    // Indexed by absolute chunk number; dropped chunks are null
+    private dataList: (Float32Array | null)[] = [];
     private currentElementCount: number = 0;
     private readonly innerArraySize: number = 4096;
+    private readonly channels: number;
 
-    constructor() {
-        print("FloatArrayWrapper: Created new instance");
-    }
+    // First chunk that shift() hasn't removed
+    private firstChunk: number = 0;
+    private residentChunks: number = 0;
+    private missedReads: number = 0;
 
-    public push(floatArray: Float32Array, arrayRealSize: number): void {
-        let availableElementsInCurrentArray = this.innerArraySize - (this.currentElementCount % this.innerArraySize);
-        
-        if (this.currentElementCount % this.innerArraySize === 0) {
-            availableElementsInCurrentArray = 0;
-        }
+    // Most chunks kept in memory by evictAround (0 = no limit)
+    public maxResidentChunks: number = 0;
 
-        const additionalElementsCount = arrayRealSize - availableElementsInCurrentArray;
-        const arraysToAddCount = Math.ceil(additionalElementsCount / this.innerArraySize);
+    constructor(channelCount: number = 1) {
+        this.channels = Math.max(1, Math.floor(channelCount));
+        log.debug("Created new instance (" + this.channels + " channel(s))");
+    }
 
-        this.createAdditionalInnerArrays(arraysToAddCount);
-        let currentCopiedElementIndex = 0;
+    /**
+     * Append samples, copying a chunk at a time
+     * @param floatArray Source samples
+     * @param arrayRealSize Number of samples to take from floatArray
+     */
+    public push(floatArray: Float32Array, arrayRealSize: number): void {
+        this.write(this.currentElementCount, floatArray, arrayRealSize);
+    }
 
-        while (currentCopiedElementIndex < arrayRealSize) {
-            const dataArrayIndex = Math.floor(this.currentElementCount / this.innerArraySize);
-            const innerArrayIndex = this.currentElementCount % this.innerArraySize;
-            
-            if (this.dataList[dataArrayIndex]) {
-                this.dataList[dataArrayIndex][innerArrayIndex] = floatArray[currentCopiedElementIndex];
-            }
+    /**
+     * Write samples at an element index, allocating chunks as needed. Used to
+     * refill evicted chunks as well as to append.
+     */
+    public write(elementIndex: number, floatArray: Float32Array, count: number): void {
+        let copied = 0;
+        while (copied < count) {
+            const index = elementIndex + copied;
+            const chunkIndex = Math.floor(index / this.innerArraySize);
+            const offset = index % this.innerArraySize;
+            const length = Math.min(this.innerArraySize - offset, count - copied);
 
-            this.currentElementCount += 1;
-            currentCopiedElementIndex += 1;
+            const chunk = this.getOrCreateChunk(chunkIndex);
+            chunk.set(floatArray.subarray(copied, copied + length), offset);
+            copied += length;
         }
+        this.currentElementCount = Math.max(this.currentElementCount, elementIndex + count);
     }
 
+    /**
+     * Remove the oldest chunk. Later elements keep their indices; reads from
+     * the removed range return 0.
+     */
     public shift(): Float32Array | undefined {
-        return this.dataList.shift();
+        while (this.firstChunk < this.dataList.length) {
+            const chunk = this.dataList[this.firstChunk];
+            this.dataList[this.firstChunk] = null;
+            this.firstChunk++;
+            if (chunk) {
+                this.residentChunks--;
+                return chunk;
+            }
+        }
+        return undefined;
     }
 
-    private createAdditionalInnerArrays(arraysCount: number): void {
-        for (let i = 0; i < arraysCount; i++) {
-            this.dataList.push(new Float32Array(this.innerArraySize));
+    private getOrCreateChunk(chunkIndex: number): Float32Array {
+        let chunk = this.dataList[chunkIndex];
+        if (!chunk) {
+            while (this.dataList.length <= chunkIndex) {
+                this.dataList.push(null);
+            }
+            chunk = new Float32Array(this.innerArraySize);
+            this.dataList[chunkIndex] = chunk;
+            this.residentChunks++;
         }
+        return chunk;
     }
 
     public getElement(idx: number): number {
         const arrayIndex = Math.floor(idx / this.innerArraySize);
         const elementInArrayIdx = idx % this.innerArraySize;
-        
-        if (this.dataList[arrayIndex]) {
-            return this.dataList[arrayIndex][elementInArrayIdx];
+        const chunk = this.dataList[arrayIndex];
+
+        if (chunk) {
+            return chunk[elementInArrayIdx];
         } else {
+            if (idx >= 0 && idx < this.currentElementCount) {
+                this.missedReads++;
+            }
             return 0;
         }
     }
 
+    /**
+     * Read one channel of an interleaved frame
+     * @param frame Frame index (one sample per channel)
+     * @param channel Channel index, clamped to the available channels
+     */
+    public getSample(frame: number, channel: number): number {
+        const clampedChannel = channel < this.channels ? channel : this.channels - 1;
+        return this.getElement(frame * this.channels + clampedChannel);
+    }
+
     public getSize(): number {
         return this.currentElementCount;
     }
 
+    public getChannelCount(): number {
+        return this.channels;
+    }
+
+    /**
+     * Number of complete frames (samples per channel)
+     */
+    public getFrameCount(): number {
+        return Math.floor(this.currentElementCount / this.channels);
+    }
+
+    /**
+     * Samples per chunk
+     */
+    public getChunkSize(): number {
+        return this.innerArraySize;
+    }
+
+    /**
+     * Number of chunks covering the written range, resident or not
+     */
+    public getChunkCount(): number {
+        return Math.ceil(this.currentElementCount / this.innerArraySize);
+    }
+
+    public getResidentChunkCount(): number {
+        return this.residentChunks;
+    }
+
+    public isChunkResident(chunkIndex: number): boolean {
+        return !!this.dataList[chunkIndex];
+    }
+
+    /**
+     * Chunk holding a frame
+     */
+    public chunkOfFrame(frame: number): number {
+        return Math.floor(Math.floor(frame) * this.channels / this.innerArraySize);
+    }
+
+    /**
+     * Reads of written but evicted samples since the last call (they played as silence)
+     */
+    public takeMissedReads(): number {
+        const missed = this.missedReads;
+        this.missedReads = 0;
+        return missed;
+    }
+
+    /**
+     * Drop chunks furthest from the given playheads until at most
+     * maxResidentChunks remain
+     * @param frames Playhead positions in frames
+     * @returns Number of chunks dropped
+     */
+    public evictAround(frames: number[]): number {
+        if (this.maxResidentChunks <= 0 || this.residentChunks <= this.maxResidentChunks) {
+            return 0;
+        }
+
+        // Distances wrap around the end, since playback loops back to the start
+        const centers = frames.map((frame) => this.chunkOfFrame(frame));
+        const chunkCount = this.getChunkCount();
+        const distance = (chunkIndex: number): number => {
+            let nearest = Infinity;
+            for (let i = 0; i < centers.length; i++) {
+                const d = Math.abs(chunkIndex - centers[i]);
+                nearest = Math.min(nearest, d, chunkCount - d);
+            }
+            return nearest;
+        };
+
+        // Gather resident chunks and drop the furthest ones
+        const resident: number[] = [];
+        for (let i = this.firstChunk; i < this.dataList.length; i++) {
+            if (this.dataList[i]) {
+                resident.push(i);
+            }
+        }
+        resident.sort((a, b) => distance(b) - distance(a));
+
+        const dropCount = this.residentChunks - this.maxResidentChunks;
+        for (let i = 0; i < dropCount; i++) {
+            this.dataList[resident[i]] = null;
+        }
+        this.residentChunks -= dropCount;
+        return dropCount;
+    }
+
     public clear(): void {
         this.currentElementCount = 0;
         this.dataList = [];
+        this.firstChunk = 0;
+        this.residentChunks = 0;
     }
 
     public validate(): void {
-        print("FloatArrayWrapper: DEBUG LENGTH = " + this.dataList.length);
+        log.info("Length = " + this.dataList.length + " chunks, " + this.residentChunks + " resident");
     }
 
+    /**
+     * Memory held by resident chunks
+     */
     public getSizeInBytes(): number {
-        if (this.dataList[0]) {
-            return this.currentElementCount * this.dataList[0].BYTES_PER_ELEMENT;
-        } else {
-            return 0;
-        }
+        return this.residentChunks * this.innerArraySize * Float32Array.BYTES_PER_ELEMENT;
     }
 }
 
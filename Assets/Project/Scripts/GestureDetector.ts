@@ -0,0 +1,371 @@
+/**
+ * GestureDetector.ts
+ *
+ * Detects discrete gestures in the motion stream of an AccelerationCalculator
+ * and raises events with their strength and direction:
+ * - Shake: several quick acceleration reversals
+ * - Flick: a short burst of velocity in one direction (swipe)
+ * - Punch: a sharp acceleration spike
+ * - Circle: the velocity direction turning through a full revolution
+ * - Stop: the target coming to rest after moving
+ */
+
+import { AccelerationCalculator } from "./AccelerationCalculator";
+import { Event, PublicApi } from "./Event";
+import { LogLevel, Logger, setCategoryLevel } from "./Logger";
+
+const log = new Logger("GestureDetector");
+
+// Shortest direction vector that still counts as pointing somewhere
+const MIN_DIRECTION_LENGTH = 0.5;
+
+export enum GestureType {
+    Shake = 0,
+    Flick = 1,
+    Punch = 2,
+    Circle = 3,
+    Stop = 4
+}
+
+export type GestureEvent = {
+    type: GestureType;
+    // Gesture intensity in the units of the signal that triggered it
+    // (units/sec for flick and stop, units/sec² for shake and punch, turns for circle)
+    strength: number;
+    // Normalised direction (rotation axis for circles, right-hand rule), zero if there is none
+    direction: vec3;
+    // Dominant world axis of the direction: "right", "left", "up", "down", "forward" or "back",
+    // or "none" when the motion had no direction (e.g. a stop from rest)
+    directionName: string;
+    time: number;
+};
+
+@component
+export class GestureDetector extends BaseScriptComponent {
+    @input
+    @hint("AccelerationCalculator component to read motion data from")
+    accelerationCalculator: AccelerationCalculator;
+
+    @input
+    @hint("Acceleration magnitude that counts as one shake stroke")
+    shakeAcceleration: number = 300.0;
+
+    @input
+    @hint("Direction reversals needed within the shake window")
+    shakeReversals: number = 4;
+
+    @input
+    @hint("Time window for a shake in seconds")
+    shakeWindow: number = 0.8;
+
+    @input
+    @hint("Velocity a flick must reach")
+    flickVelocity: number = 150.0;
+
+    @input
+    @hint("Longest a flick may last in seconds")
+    flickMaxDuration: number = 0.35;
+
+    @input
+    @hint("Acceleration spike that counts as a punch")
+    punchAcceleration: number = 1500.0;
+
+    @input
+    @hint("Minimum speed while drawing a circle")
+    circleMinVelocity: number = 30.0;
+
+    @input
+    @hint("Longest a full circle may take in seconds")
+    circleMaxDuration: number = 2.0;
+
+    @input
+    @hint("Velocity below which the target counts as stopped")
+    stopVelocity: number = 5.0;
+
+    @input
+    @hint("How long the target must have moved before a stop is reported, in seconds")
+    stopMinMoveDuration: number = 0.25;
+
+    @input
+    @hint("Minimum time between two gestures of the same type, in seconds")
+    cooldown: number = 0.3;
+
+    @input
+    @hint("Log debug output for this component (raises its log level to Debug)")
+    enableDebugLogging: boolean = false;
+
+    private onGestureEvent = new Event<GestureEvent>();
+    private onShakeEvent = new Event<GestureEvent>();
+    private onFlickEvent = new Event<GestureEvent>();
+    private onPunchEvent = new Event<GestureEvent>();
+    private onCircleEvent = new Event<GestureEvent>();
+    private onStopEvent = new Event<GestureEvent>();
+
+    /** Any detected gesture */
+    public readonly onGesture: PublicApi<GestureEvent> = this.onGestureEvent.publicApi();
+    public readonly onShake: PublicApi<GestureEvent> = this.onShakeEvent.publicApi();
+    public readonly onFlick: PublicApi<GestureEvent> = this.onFlickEvent.publicApi();
+    public readonly onPunch: PublicApi<GestureEvent> = this.onPunchEvent.publicApi();
+    public readonly onCircle: PublicApi<GestureEvent> = this.onCircleEvent.publicApi();
+    public readonly onStop: PublicApi<GestureEvent> = this.onStopEvent.publicApi();
+
+    // Last time each gesture type fired, for the cooldown
+    private lastGestureTime: number[] = [-Infinity, -Infinity, -Infinity, -Infinity, -Infinity];
+
+    // Shake: times of recent reversals and the last strong acceleration direction
+    private shakeReversalTimes: number[] = [];
+    private lastShakeDirection: vec3 | null = null;
+    private shakePeak: number = 0;
+
+    // Flick: burst start time and peak velocity
+    private flickStartTime: number = -1;
+    private flickPeakVelocity: vec3 = vec3.zero();
+
+    // Punch: rising-edge detection
+    private wasAbovePunch: boolean = false;
+
+    // Circle: accumulated turning of the velocity direction
+    private circleAngle: number = 0;
+    private circleAxis: vec3 = vec3.zero();
+    private circleStartTime: number = -1;
+    private previousVelocity: vec3 | null = null;
+
+    // Stop: when the current movement started and its peak speed
+    private moveStartTime: number = -1;
+    private movePeakSpeed: number = 0;
+
+    onAwake(): void {
+        if (this.enableDebugLogging) {
+            setCategoryLevel(log.category, LogLevel.Debug);
+        }
+
+        if (!this.accelerationCalculator) {
+            log.error("No AccelerationCalculator specified!");
+            return;
+        }
+
+        this.createEvent("UpdateEvent").bind(() => {
+            this.detectGestures();
+        });
+
+        log.info("Initialized");
+    }
+
+    /**
+     * Clear all in-progress gesture state
+     */
+    public reset(): void {
+        this.shakeReversalTimes = [];
+        this.lastShakeDirection = null;
+        this.shakePeak = 0;
+        this.flickStartTime = -1;
+        this.wasAbovePunch = false;
+        this.resetCircle();
+        this.previousVelocity = null;
+        this.moveStartTime = -1;
+        this.movePeakSpeed = 0;
+    }
+
+    private detectGestures(): void {
+        const time = getTime();
+        const velocity = this.accelerationCalculator.velocity;
+        const acceleration = this.accelerationCalculator.accelerationVector;
+
+        this.detectShake(time, acceleration);
+        this.detectFlick(time, velocity);
+        this.detectPunch(time, velocity, acceleration);
+        this.detectCircle(time, velocity);
+        this.detectStop(time, velocity);
+
+        this.previousVelocity = velocity;
+    }
+
+    private detectShake(time: number, acceleration: vec3): void {
+        const magnitude = acceleration.length;
+        if (magnitude < this.shakeAcceleration) {
+            return;
+        }
+
+        const direction = acceleration.normalize();
+        if (this.lastShakeDirection && direction.dot(this.lastShakeDirection) < 0) {
+            this.shakeReversalTimes.push(time);
+            this.shakePeak = Math.max(this.shakePeak, magnitude);
+        }
+        this.lastShakeDirection = direction;
+
+        // Only keep reversals inside the window
+        while (this.shakeReversalTimes.length > 0 && time - this.shakeReversalTimes[0] > this.shakeWindow) {
+            this.shakeReversalTimes.shift();
+        }
+
+        if (this.shakeReversalTimes.length >= this.shakeReversals) {
+            this.emit(GestureType.Shake, this.shakePeak, direction, time);
+            this.shakeReversalTimes = [];
+            this.shakePeak = 0;
+        }
+    }
+
+    private detectFlick(time: number, velocity: vec3): void {
+        const speed = velocity.length;
+
+        if (speed >= this.flickVelocity) {
+            if (this.flickStartTime < 0) {
+                this.flickStartTime = time;
+                this.flickPeakVelocity = velocity;
+            } else if (speed > this.flickPeakVelocity.length) {
+                this.flickPeakVelocity = velocity;
+            }
+            return;
+        }
+
+        // Burst ended: it's a flick if it was short
+        if (this.flickStartTime >= 0) {
+            if (time - this.flickStartTime <= this.flickMaxDuration) {
+                const peak = this.flickPeakVelocity;
+                this.emit(GestureType.Flick, peak.length, peak.normalize(), time);
+            }
+            this.flickStartTime = -1;
+        }
+    }
+
+    private detectPunch(time: number, velocity: vec3, acceleration: vec3): void {
+        const magnitude = acceleration.length;
+        const isAbove = magnitude >= this.punchAcceleration;
+
+        if (isAbove && !this.wasAbovePunch) {
+            // Direction of travel; fall back to the acceleration if barely moving
+            const direction = velocity.length > this.stopVelocity ? velocity.normalize() : acceleration.normalize();
+            this.emit(GestureType.Punch, magnitude, direction, time);
+        }
+        this.wasAbovePunch = isAbove;
+    }
+
+    private detectCircle(time: number, velocity: vec3): void {
+        if (velocity.length < this.circleMinVelocity || !this.previousVelocity ||
+            this.previousVelocity.length < this.circleMinVelocity) {
+            this.resetCircle();
+            return;
+        }
+
+        if (this.circleStartTime < 0) {
+            this.circleStartTime = time;
+        }
+
+        const previousDirection = this.previousVelocity.normalize();
+        const currentDirection = velocity.normalize();
+        const axis = previousDirection.cross(currentDirection);
+        const angle = Math.atan2(axis.length, previousDirection.dot(currentDirection));
+
+        if (axis.length > 1e-6) {
+            // Keep turning in a consistent direction around the running axis
+            const normalizedAxis = axis.normalize();
+            if (this.circleAxis.length > 0 && normalizedAxis.dot(this.circleAxis) < 0) {
+                this.resetCircle();
+                this.circleStartTime = time;
+            }
+            this.circleAxis = this.circleAxis.add(normalizedAxis.uniformScale(angle)).normalize();
+            this.circleAngle += angle;
+        }
+
+        if (time - this.circleStartTime > this.circleMaxDuration) {
+            this.resetCircle();
+            return;
+        }
+
+        if (this.circleAngle >= Math.PI * 2) {
+            this.emit(GestureType.Circle, this.circleAngle / (Math.PI * 2), this.circleAxis, time);
+            this.resetCircle();
+        }
+    }
+
+    private resetCircle(): void {
+        this.circleAngle = 0;
+        this.circleAxis = vec3.zero();
+        this.circleStartTime = -1;
+    }
+
+    private detectStop(time: number, velocity: vec3): void {
+        const speed = velocity.length;
+
+        if (speed > this.stopVelocity) {
+            if (this.moveStartTime < 0) {
+                this.moveStartTime = time;
+                this.movePeakSpeed = 0;
+            }
+            this.movePeakSpeed = Math.max(this.movePeakSpeed, speed);
+            return;
+        }
+
+        if (this.moveStartTime >= 0) {
+            if (time - this.moveStartTime >= this.stopMinMoveDuration) {
+                const direction = this.previousVelocity ? this.previousVelocity.normalize() : vec3.zero();
+                this.emit(GestureType.Stop, this.movePeakSpeed, direction, time);
+            }
+            this.moveStartTime = -1;
+        }
+    }
+
+    private emit(type: GestureType, strength: number, rawDirection: vec3, time: number): void {
+        if (time - this.lastGestureTime[type] < this.cooldown) {
+            return;
+        }
+        this.lastGestureTime[type] = time;
+
+        const direction = hasDirection(rawDirection) ? rawDirection : vec3.zero();
+
+        const gesture: GestureEvent = {
+            type: type,
+            strength: strength,
+            direction: direction,
+            directionName: this.getDirectionName(direction),
+            time: time
+        };
+
+        if (log.isEnabled(LogLevel.Debug)) {
+            log.debug(GestureType[type] + " | Strength: " + strength.toFixed(3) +
+                " | Direction: " + gesture.directionName);
+        }
+
+        this.onGestureEvent.invoke(gesture);
+        switch (type) {
+            case GestureType.Shake:
+                this.onShakeEvent.invoke(gesture);
+                break;
+            case GestureType.Flick:
+                this.onFlickEvent.invoke(gesture);
+                break;
+            case GestureType.Punch:
+                this.onPunchEvent.invoke(gesture);
+                break;
+            case GestureType.Circle:
+                this.onCircleEvent.invoke(gesture);
+                break;
+            case GestureType.Stop:
+                this.onStopEvent.invoke(gesture);
+                break;
+        }
+    }
+
+    private getDirectionName(direction: vec3): string {
+        if (!hasDirection(direction)) {
+            return "none";
+        }
+        const ax = Math.abs(direction.x);
+        const ay = Math.abs(direction.y);
+        const az = Math.abs(direction.z);
+        if (ax >= ay && ax >= az) {
+            return direction.x >= 0 ? "right" : "left";
+        }
+        if (ay >= az) {
+            return direction.y >= 0 ? "up" : "down";
+        }
+        // Lens Studio's forward is -Z
+        return direction.z <= 0 ? "forward" : "back";
+    }
+}
+
+// Directions are normalised, so anything much shorter (a zero vector, or NaN
+// from normalising one) has no direction
+function hasDirection(direction: vec3): boolean {
+    return direction.length >= MIN_DIRECTION_LENGTH;
+}
@@ -0,0 +1,57 @@
+/**
+ * Limiter.ts
+ *
+ * Peak limiter with instant attack and exponential release, linked across
+ * both channels so the stereo image doesn't shift when it engages. Keeps the
+ * output below the threshold when volume is pushed above 1.
+ */
+
+import { AudioEffect } from "./AudioEffect";
+
+export class Limiter extends AudioEffect {
+    // Maximum output level (linear, 1.0 = full scale)
+    private threshold: number = 0.95;
+    // Release time in seconds
+    private release: number = 0.1;
+
+    private gain: number = 1.0;
+
+    constructor(type: string, sampleRate: number) {
+        super(type, sampleRate);
+        this.defineParameter("threshold", () => this.threshold, (v) => {
+            this.threshold = Math.max(0.01, Math.min(1, v));
+        });
+        this.defineParameter("release", () => this.release, (v) => {
+            this.release = Math.max(0.001, Math.min(2, v));
+        });
+    }
+
+    /**
+     * Current gain reduction factor (1 = not limiting)
+     */
+    public get currentGain(): number {
+        return this.gain;
+    }
+
+    public reset(): void {
+        this.gain = 1.0;
+    }
+
+    public process(left: Float32Array, right: Float32Array, count: number): void {
+        const releaseCoefficient = Math.exp(-1.0 / (this.release * this.sampleRate));
+
+        for (let i = 0; i < count; i++) {
+            const peak = Math.max(Math.abs(left[i]), Math.abs(right[i]));
+            const targetGain = peak > this.threshold ? this.threshold / peak : 1.0;
+
+            if (targetGain < this.gain) {
+                this.gain = targetGain;
+            } else {
+                this.gain = targetGain + (this.gain - targetGain) * releaseCoefficient;
+            }
+
+            left[i] *= this.gain;
+            right[i] *= this.gain;
+        }
+    }
+}
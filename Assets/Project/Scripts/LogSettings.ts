@@ -0,0 +1,102 @@
+/**
+ * LogSettings.ts
+ *
+ * Configures the shared Logger from the Inspector. Place it above the other
+ * scripts in the hierarchy so the settings apply before they initialize.
+ * Release builds can print warnings and errors only while the ring buffer
+ * still captures recent lines for dumpLog().
+ */
+
+import {
+    dumpLog,
+    LogLevel,
+    Logger,
+    setCaptureLevel,
+    setCategoryLevel,
+    setLogLevel,
+    setMaxLinesPerSecond,
+    setRingBufferSize
+} from "./Logger";
+
+const log = new Logger("LogSettings");
+
+@component
+export class LogSettings extends BaseScriptComponent {
+    @input
+    @hint("Lines at or below this level are printed")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Error", LogLevel.Error),
+        new ComboBoxItem("Warn", LogLevel.Warn),
+        new ComboBoxItem("Info", LogLevel.Info),
+        new ComboBoxItem("Debug", LogLevel.Debug),
+        new ComboBoxItem("Trace", LogLevel.Trace)
+    ]))
+    printLevel: number = LogLevel.Info;
+
+    @input
+    @hint("Lines at or below this level are kept in the ring buffer")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Error", LogLevel.Error),
+        new ComboBoxItem("Warn", LogLevel.Warn),
+        new ComboBoxItem("Info", LogLevel.Info),
+        new ComboBoxItem("Debug", LogLevel.Debug),
+        new ComboBoxItem("Trace", LogLevel.Trace)
+    ]))
+    captureLevel: number = LogLevel.Info;
+
+    @input
+    @hint("Most lines printed per second (0 = no limit); errors are always printed")
+    maxLinesPerSecond: number = 30;
+
+    @input
+    @hint("Number of recent lines kept for dumpLog()")
+    ringBufferSize: number = 256;
+
+    @input
+    @hint("Per-category print levels, e.g. \"AccelerationCalculator:trace, AudioController:warn\"")
+    categoryLevels: string = "";
+
+    onAwake(): void {
+        setLogLevel(this.printLevel);
+        setCaptureLevel(this.captureLevel);
+        setMaxLinesPerSecond(this.maxLinesPerSecond);
+        setRingBufferSize(this.ringBufferSize);
+        this.applyCategoryLevels(this.categoryLevels);
+    }
+
+    /**
+     * Print the captured lines
+     */
+    public dump(): void {
+        dumpLog();
+    }
+
+    // "Category:level" pairs separated by commas
+    private applyCategoryLevels(text: string): void {
+        const pairs = text.split(",");
+        for (let i = 0; i < pairs.length; i++) {
+            if (pairs[i].trim().length === 0) {
+                continue;
+            }
+            const parts = pairs[i].split(":");
+            const category = parts[0].trim();
+            const level = parts.length === 2 ? this.parseLevel(parts[1].trim().toLowerCase()) : null;
+            if (category.length === 0 || level === null) {
+                log.warn("Invalid category level \"" + pairs[i].trim() + "\"");
+                continue;
+            }
+            setCategoryLevel(category, level);
+        }
+    }
+
+    private parseLevel(name: string): LogLevel | null {
+        switch (name) {
+            case "error": return LogLevel.Error;
+            case "warn": return LogLevel.Warn;
+            case "info": return LogLevel.Info;
+            case "debug": return LogLevel.Debug;
+            case "trace": return LogLevel.Trace;
+            default: return null;
+        }
+    }
+}
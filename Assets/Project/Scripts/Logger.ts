@@ -0,0 +1,207 @@
+/**
+ * Logger.ts
+ *
+ * Shared levelled logger. Every script gets a Logger for its category
+ * (usually the component name). Lines below the print level are not printed,
+ * printing is throttled to a number of lines per second, and recent lines are
+ * kept in a ring buffer that can be dumped on demand - so a quiet build still
+ * has diagnostics to look at.
+ *
+ * Messages can be passed as functions so expensive per-frame strings are only
+ * built when the line is actually printed or captured.
+ */
+
+export enum LogLevel {
+    Error = 0,
+    Warn = 1,
+    Info = 2,
+    Debug = 3,
+    Trace = 4
+}
+
+export type LogMessage = string | (() => string);
+
+const LEVEL_PREFIXES = ["ERROR - ", "WARNING - ", "", "[DEBUG] ", "[TRACE] "];
+
+// Shared settings for every logger
+const settings = {
+    printLevel: LogLevel.Info,
+    captureLevel: LogLevel.Info,
+    // 0 = no limit
+    maxLinesPerSecond: 30,
+    categoryLevels: {} as { [category: string]: LogLevel }
+};
+
+// Throttle window
+let windowStart = -1;
+let linesInWindow = 0;
+let suppressedLines = 0;
+
+// Ring buffer of captured lines
+let ringBuffer: string[] = new Array(256);
+let ringStart = 0;
+let ringCount = 0;
+
+/**
+ * Lines at or below this level are printed (per-category levels take precedence)
+ */
+export function setLogLevel(level: LogLevel): void {
+    settings.printLevel = level;
+}
+
+export function getLogLevel(): LogLevel {
+    return settings.printLevel;
+}
+
+/**
+ * Override the print level for one category, e.g. to debug a single component
+ */
+export function setCategoryLevel(category: string, level: LogLevel): void {
+    settings.categoryLevels[category] = level;
+}
+
+export function clearCategoryLevel(category: string): void {
+    delete settings.categoryLevels[category];
+}
+
+/**
+ * Lines at or below this level are kept in the ring buffer, printed or not
+ */
+export function setCaptureLevel(level: LogLevel): void {
+    settings.captureLevel = level;
+}
+
+/**
+ * Limit printed lines per second (0 = no limit). Errors are never dropped.
+ */
+export function setMaxLinesPerSecond(lines: number): void {
+    settings.maxLinesPerSecond = Math.max(0, lines);
+}
+
+/**
+ * Resize the ring buffer. Clears captured lines.
+ */
+export function setRingBufferSize(size: number): void {
+    ringBuffer = new Array(Math.max(1, Math.floor(size)));
+    ringStart = 0;
+    ringCount = 0;
+}
+
+/**
+ * Captured lines, oldest first
+ */
+export function getLogEntries(): string[] {
+    const entries: string[] = [];
+    for (let i = 0; i < ringCount; i++) {
+        entries.push(ringBuffer[(ringStart + i) % ringBuffer.length]);
+    }
+    return entries;
+}
+
+export function clearLogEntries(): void {
+    ringStart = 0;
+    ringCount = 0;
+}
+
+/**
+ * Print every captured line, bypassing levels and throttling
+ */
+export function dumpLog(): void {
+    const entries = getLogEntries();
+    print("Logger: === DUMP (" + entries.length + " lines) ===");
+    for (let i = 0; i < entries.length; i++) {
+        print(entries[i]);
+    }
+    print("Logger: === END DUMP ===");
+}
+
+function capture(line: string): void {
+    const size = ringBuffer.length;
+    if (ringCount < size) {
+        ringBuffer[(ringStart + ringCount) % size] = line;
+        ringCount++;
+    } else {
+        ringBuffer[ringStart] = line;
+        ringStart = (ringStart + 1) % size;
+    }
+}
+
+// Whether the throttle lets another line through this second
+function allowPrint(level: LogLevel, time: number): boolean {
+    if (time - windowStart >= 1.0 || time < windowStart) {
+        if (suppressedLines > 0) {
+            print("Logger: WARNING - " + suppressedLines + " lines suppressed");
+        }
+        windowStart = time;
+        linesInWindow = 0;
+        suppressedLines = 0;
+    }
+
+    if (level !== LogLevel.Error && settings.maxLinesPerSecond > 0 &&
+        linesInWindow >= settings.maxLinesPerSecond) {
+        suppressedLines++;
+        return false;
+    }
+    linesInWindow++;
+    return true;
+}
+
+export class Logger {
+    public readonly category: string;
+
+    constructor(category: string) {
+        this.category = category;
+    }
+
+    /**
+     * Whether a line at this level would be printed or captured. Use it to
+     * skip work that only exists to feed the log.
+     */
+    public isEnabled(level: LogLevel): boolean {
+        return level <= this.printLevel() || level <= settings.captureLevel;
+    }
+
+    public error(message: LogMessage): void {
+        this.log(LogLevel.Error, message);
+    }
+
+    public warn(message: LogMessage): void {
+        this.log(LogLevel.Warn, message);
+    }
+
+    public info(message: LogMessage): void {
+        this.log(LogLevel.Info, message);
+    }
+
+    public debug(message: LogMessage): void {
+        this.log(LogLevel.Debug, message);
+    }
+
+    public trace(message: LogMessage): void {
+        this.log(LogLevel.Trace, message);
+    }
+
+    public log(level: LogLevel, message: LogMessage): void {
+        const shouldPrint = level <= this.printLevel();
+        const shouldCapture = level <= settings.captureLevel;
+        if (!shouldPrint && !shouldCapture) {
+            return;
+        }
+
+        const text = typeof message === "function" ? message() : message;
+        const line = this.category + ": " + LEVEL_PREFIXES[level] + text;
+        const time = getTime();
+
+        if (shouldCapture) {
+            capture("[" + time.toFixed(3) + "] " + line);
+        }
+        if (shouldPrint && allowPrint(level, time)) {
+            print(line);
+        }
+    }
+
+    private printLevel(): LogLevel {
+        const categoryLevel = settings.categoryLevels[this.category];
+        return categoryLevel !== undefined ? categoryLevel : settings.printLevel;
+    }
+}
@@ -0,0 +1,361 @@
+/**
+ * MotionCalibrator.ts
+ *
+ * Fits AccelerationToRate to the person using the lens. During a short
+ * "move freely" window it watches the motion source that drives the rate,
+ * estimates the noise floor (jitter while barely moving) and the comfortable
+ * maximum, and sets the thresholds and sensitivity so that range covers the
+ * base rate up to maxRate. AccelerationCalculator's velocityThreshold is set
+ * from the noise floor of the speed the same way.
+ *
+ * Only the range above the base rate is fitted. Rates below it come from
+ * signed sources moving the negative way, which slow down by the factor the
+ * same positive motion speeds up by, so minRate stays a clamp that the
+ * calibrated range doesn't necessarily reach.
+ *
+ * Optionally the estimates keep adapting slowly for the rest of the session,
+ * following the user as they warm up or tire.
+ */
+
+import { AccelerationCalculator } from "./AccelerationCalculator";
+import { AccelerationToRate } from "./AccelerationToRate";
+import { Event, PublicApi } from "./Event";
+import { LogLevel, Logger, setCategoryLevel } from "./Logger";
+
+const log = new Logger("MotionCalibrator");
+
+// Fewer samples than this can't give a meaningful range
+const MIN_CALIBRATION_SAMPLES = 10;
+// The comfortable maximum must be at least this many times the engage threshold
+const MIN_RANGE_RATIO = 2.0;
+// Noise floors are kept at least this fraction of the comfortable maximum.
+// Resting often reads exactly 0, and zero thresholds would never release.
+const MIN_NOISE_FRACTION = 0.02;
+
+export type CalibrationProgressEvent = {
+    // 0..1 through the calibration window
+    progress: number;
+    // Seconds left
+    remaining: number;
+};
+
+export type CalibrationResult = {
+    // False if there was too little movement; the settings were left unchanged
+    applied: boolean;
+    noiseFloor: number;
+    comfortableMax: number;
+    motionThreshold: number;
+    releaseThreshold: number;
+    sensitivity: number;
+    velocityThreshold: number;
+};
+
+@component
+export class MotionCalibrator extends BaseScriptComponent {
+    @input
+    @hint("AccelerationCalculator component whose velocity threshold is calibrated")
+    accelerationCalculator: AccelerationCalculator;
+
+    @input
+    @hint("AccelerationToRate component whose thresholds and sensitivity are calibrated")
+    accelerationToRate: AccelerationToRate;
+
+    @input
+    @hint("Start calibrating as soon as the lens starts")
+    calibrateOnStart: boolean = true;
+
+    @input
+    @hint("Length of the 'move freely' window in seconds")
+    @widget(new SliderWidget(1.0, 30.0, 0.5))
+    calibrationDuration: number = 5.0;
+
+    @input
+    @hint("Hold the rate at the base rate while calibrating")
+    pauseRateControl: boolean = true;
+
+    @input
+    @hint("Fraction of the samples treated as noise (the quietest ones)")
+    @widget(new SliderWidget(0.01, 0.5, 0.01))
+    noisePercentile: number = 0.1;
+
+    @input
+    @hint("Fraction of the samples below the comfortable maximum (ignores the few wildest moves)")
+    @widget(new SliderWidget(0.5, 1.0, 0.01))
+    maxPercentile: number = 0.95;
+
+    @input
+    @hint("Engage threshold as a multiple of the noise floor")
+    @widget(new SliderWidget(1.0, 5.0, 0.1))
+    thresholdMargin: number = 2.0;
+
+    @input
+    @hint("Keep adapting the noise floor and maximum slowly after calibration")
+    adaptContinuously: boolean = false;
+
+    @input
+    @hint("Adaptation speed: seconds for the estimates to follow a change in how the user moves")
+    @widget(new SliderWidget(5.0, 300.0, 5.0))
+    adaptationTime: number = 60.0;
+
+    @input
+    @hint("Log debug output for this component (raises its log level to Debug)")
+    enableDebugLogging: boolean = false;
+
+    private onProgressEvent = new Event<CalibrationProgressEvent>();
+    private onCalibratedEvent = new Event<CalibrationResult>();
+
+    /**
+     * Calibration progress, once per frame while calibrating
+     */
+    public readonly onProgress: PublicApi<CalibrationProgressEvent> = this.onProgressEvent.publicApi();
+
+    /**
+     * Calibration finished (check applied to see whether the settings changed)
+     */
+    public readonly onCalibrated: PublicApi<CalibrationResult> = this.onCalibratedEvent.publicApi();
+
+    private calibrating: boolean = false;
+    private elapsed: number = 0;
+    private motionSamples: number[] = [];
+    private speedSamples: number[] = [];
+    // Whether AccelerationToRate is paused by this calibrator, and whether it
+    // was enabled before that
+    private pausedRateControl: boolean = false;
+    private rateControlWasEnabled: boolean = true;
+
+    // Estimates, from calibration and then adaptation
+    private noiseFloor: number = 0;
+    private comfortableMax: number = 0;
+    private speedNoiseFloor: number = 0;
+    private minSpeedNoiseFloor: number = 0;
+    private calibrated: boolean = false;
+    private lastResult: CalibrationResult | null = null;
+
+    public get isCalibrating(): boolean {
+        return this.calibrating;
+    }
+
+    public get isCalibrated(): boolean {
+        return this.calibrated;
+    }
+
+    /**
+     * 0..1 through the current calibration window (1 when not calibrating)
+     */
+    public get progress(): number {
+        if (!this.calibrating) {
+            return 1.0;
+        }
+        return this.calibrationDuration > 0 ? Math.min(1.0, this.elapsed / this.calibrationDuration) : 1.0;
+    }
+
+    /**
+     * Result of the last calibration, or null before the first one finished
+     */
+    public get result(): CalibrationResult | null {
+        return this.lastResult;
+    }
+
+    onAwake(): void {
+        if (this.enableDebugLogging) {
+            setCategoryLevel(log.category, LogLevel.Debug);
+        }
+
+        if (!this.hasInputs()) {
+            return;
+        }
+
+        this.createEvent("UpdateEvent").bind(() => {
+            this.update(getDeltaTime());
+        });
+
+        if (this.calibrateOnStart) {
+            this.startCalibration();
+        }
+    }
+
+    /**
+     * Start a calibration window. The user should move freely, from resting
+     * to the biggest movements they're comfortable with.
+     */
+    public startCalibration(): void {
+        if (!this.hasInputs()) {
+            return;
+        }
+        this.calibrating = true;
+        this.elapsed = 0;
+        this.motionSamples = [];
+        this.speedSamples = [];
+
+        // Restarting while paused must not record the paused state as the original one
+        if (this.pauseRateControl && !this.pausedRateControl) {
+            this.rateControlWasEnabled = this.accelerationToRate.enabled;
+            this.accelerationToRate.setEnabled(false);
+            this.pausedRateControl = true;
+        }
+        log.info("Calibration started - move freely for " + this.calibrationDuration + "s");
+    }
+
+    /**
+     * Stop the calibration window early without changing any settings
+     */
+    public cancelCalibration(): void {
+        if (!this.calibrating) {
+            return;
+        }
+        this.calibrating = false;
+        this.resumeRateControl();
+        log.info("Calibration cancelled");
+    }
+
+    private update(deltaTime: number): void {
+        const motion = Math.abs(this.accelerationToRate.readMotion());
+        const speed = this.accelerationCalculator.velocityMagnitude;
+
+        if (this.calibrating) {
+            this.motionSamples.push(motion);
+            this.speedSamples.push(speed);
+            this.elapsed += deltaTime;
+            this.onProgressEvent.invoke({
+                progress: this.progress,
+                remaining: Math.max(0, this.calibrationDuration - this.elapsed)
+            });
+            if (this.elapsed >= this.calibrationDuration) {
+                this.finishCalibration();
+            }
+        } else if (this.adaptContinuously && this.calibrated) {
+            this.adapt(motion, speed, deltaTime);
+        }
+    }
+
+    private finishCalibration(): void {
+        this.calibrating = false;
+        this.resumeRateControl();
+
+        if (this.motionSamples.length < MIN_CALIBRATION_SAMPLES) {
+            log.warn("Too few samples to calibrate, keeping the current settings");
+            this.reportResult(false);
+            return;
+        }
+
+        const comfortableMax = percentile(this.motionSamples, this.maxPercentile);
+        const noiseFloor = Math.max(percentile(this.motionSamples, this.noisePercentile), comfortableMax * MIN_NOISE_FRACTION);
+        if (comfortableMax < noiseFloor * this.thresholdMargin * MIN_RANGE_RATIO || comfortableMax <= 0) {
+            log.warn("Not enough movement during calibration, keeping the current settings");
+            this.reportResult(false);
+            return;
+        }
+
+        this.noiseFloor = noiseFloor;
+        this.comfortableMax = comfortableMax;
+        this.minSpeedNoiseFloor = percentile(this.speedSamples, this.maxPercentile) * MIN_NOISE_FRACTION;
+        this.speedNoiseFloor = Math.max(percentile(this.speedSamples, this.noisePercentile), this.minSpeedNoiseFloor);
+        this.calibrated = true;
+        this.applySettings();
+        this.reportResult(true);
+    }
+
+    // Follow the noise floor and maximum with running percentile estimates:
+    // each sample nudges an estimate up if above it and down if below, with
+    // steps proportional to the estimate so the speed doesn't depend on scale
+    private adapt(motion: number, speed: number, deltaTime: number): void {
+        if (this.adaptationTime <= 0) {
+            return;
+        }
+        const step = deltaTime / this.adaptationTime;
+        this.comfortableMax = trackPercentile(this.comfortableMax, motion, this.maxPercentile, step, 0);
+        this.noiseFloor = trackPercentile(this.noiseFloor, motion, this.noisePercentile, step,
+            this.comfortableMax * MIN_NOISE_FRACTION);
+        this.speedNoiseFloor = trackPercentile(this.speedNoiseFloor, speed, this.noisePercentile, step,
+            this.minSpeedNoiseFloor);
+
+        // Keep the range usable while the user rests for a long time
+        this.comfortableMax = Math.max(this.comfortableMax, this.noiseFloor * this.thresholdMargin * MIN_RANGE_RATIO);
+        this.applySettings();
+    }
+
+    // Set thresholds and sensitivity from the current estimates
+    private applySettings(): void {
+        const rateControl = this.accelerationToRate;
+
+        // Keep the configured ratio between the release and engage thresholds
+        const releaseRatio = rateControl.motionThreshold > 0 ?
+            Math.min(1.0, rateControl.releaseThreshold / rateControl.motionThreshold) : 0.6;
+        rateControl.motionThreshold = this.noiseFloor * this.thresholdMargin;
+        rateControl.releaseThreshold = rateControl.motionThreshold * releaseRatio;
+
+        // The comfortable maximum reaches maxRate
+        const headroom = rateControl.maxRate / rateControl.baseRate - 1.0;
+        if (headroom > 0) {
+            rateControl.sensitivity = headroom / this.comfortableMax;
+        }
+
+        // Without any speed during calibration (e.g. a rotation source) keep the configured threshold
+        if (this.speedNoiseFloor > 0) {
+            this.accelerationCalculator.velocityThreshold = this.speedNoiseFloor * this.thresholdMargin;
+        }
+
+        log.debug("Noise floor: " + this.noiseFloor.toFixed(4) +
+            " | Max: " + this.comfortableMax.toFixed(4) +
+            " | Threshold: " + rateControl.motionThreshold.toFixed(4) +
+            " | Sensitivity: " + rateControl.sensitivity.toFixed(4));
+    }
+
+    private reportResult(applied: boolean): void {
+        const rateControl = this.accelerationToRate;
+        const result: CalibrationResult = {
+            applied: applied,
+            noiseFloor: this.noiseFloor,
+            comfortableMax: this.comfortableMax,
+            motionThreshold: rateControl.motionThreshold,
+            releaseThreshold: rateControl.releaseThreshold,
+            sensitivity: rateControl.sensitivity,
+            velocityThreshold: this.accelerationCalculator.velocityThreshold
+        };
+        this.lastResult = result;
+
+        if (applied) {
+            log.info("Calibrated - threshold " + result.motionThreshold.toFixed(4) +
+                ", sensitivity " + result.sensitivity.toFixed(4));
+        }
+        this.onCalibratedEvent.invoke(result);
+    }
+
+    private resumeRateControl(): void {
+        if (!this.pausedRateControl) {
+            return;
+        }
+        this.pausedRateControl = false;
+        if (this.rateControlWasEnabled && this.accelerationToRate) {
+            this.accelerationToRate.setEnabled(true);
+        }
+    }
+
+    private hasInputs(): boolean {
+        if (!this.accelerationCalculator) {
+            log.error("No AccelerationCalculator specified!");
+            return false;
+        }
+        if (!this.accelerationToRate) {
+            log.error("No AccelerationToRate specified!");
+            return false;
+        }
+        return true;
+    }
+}
+
+// Value below which the given fraction of the samples lie
+function percentile(samples: number[], fraction: number): number {
+    if (samples.length === 0) {
+        return 0;
+    }
+    const sorted = samples.slice().sort((a, b) => a - b);
+    const index = Math.round(Math.max(0, Math.min(1, fraction)) * (sorted.length - 1));
+    return sorted[index];
+}
+
+// One step of a running percentile estimate, kept at or above minimum
+function trackPercentile(estimate: number, sample: number, fraction: number, step: number, minimum: number): number {
+    const direction = sample > estimate ? fraction : -(1 - fraction);
+    return Math.max(minimum, estimate + direction * Math.max(estimate, 1e-6) * step);
+}
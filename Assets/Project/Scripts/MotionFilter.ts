@@ -0,0 +1,359 @@
+/**
+ * MotionFilter.ts
+ *
+ * Frame-rate-independent filters for motion data. Every filter takes the
+ * elapsed time of the frame, so values tuned in the Lens Studio preview carry
+ * over to the device even though the two run at different frame rates.
+ */
+
+export enum FilterMode {
+    Exponential = 0,
+    OneEuro = 1,
+    Kalman = 2
+}
+
+// Frame rate the per-frame smoothing factors were originally tuned at
+const REFERENCE_FRAME_RATE = 60.0;
+
+/**
+ * Convert a per-frame EMA smoothing factor (tuned at 60fps) into the factor
+ * for a frame of length deltaTime, so the decay per second stays the same.
+ * @param smoothingFactor 0 = no smoothing, towards 1 = heavy smoothing
+ * @param deltaTime Frame length in seconds
+ */
+export function smoothingForDeltaTime(smoothingFactor: number, deltaTime: number): number {
+    if (smoothingFactor <= 0) {
+        return 0;
+    }
+    if (deltaTime <= 0) {
+        return smoothingFactor;
+    }
+    return Math.pow(smoothingFactor, deltaTime * REFERENCE_FRAME_RATE);
+}
+
+/**
+ * Time-aware exponential moving average on a scalar
+ * @returns (1 - alpha) * current + alpha * previous with alpha scaled to deltaTime
+ */
+export function smoothScalar(previous: number, current: number, smoothingFactor: number, deltaTime: number): number {
+    const alpha = smoothingForDeltaTime(smoothingFactor, deltaTime);
+    return (1.0 - alpha) * current + alpha * previous;
+}
+
+/**
+ * Exponential approach towards a target, given as a time constant instead of
+ * a per-frame factor: after timeConstant seconds about 63% of the distance is
+ * covered, after three time constants about 95%
+ * @param timeConstant Seconds (0 = jump to the target)
+ */
+export function approachScalar(previous: number, target: number, timeConstant: number, deltaTime: number): number {
+    if (timeConstant <= 0) {
+        return target;
+    }
+    const alpha = Math.exp(-Math.max(0, deltaTime) / timeConstant);
+    return (1.0 - alpha) * target + alpha * previous;
+}
+
+/**
+ * Time-aware exponential moving average on a vector
+ */
+export function smoothVector(previous: vec3, current: vec3, smoothingFactor: number, deltaTime: number): vec3 {
+    const alpha = smoothingForDeltaTime(smoothingFactor, deltaTime);
+    const oneMinusAlpha = 1.0 - alpha;
+    return new vec3(
+        oneMinusAlpha * current.x + alpha * previous.x,
+        oneMinusAlpha * current.y + alpha * previous.y,
+        oneMinusAlpha * current.z + alpha * previous.z
+    );
+}
+
+/**
+ * One Euro filter (Casiez et al. 2012) on a vector: heavy smoothing when the
+ * signal changes slowly, little lag when it changes fast.
+ */
+export class OneEuroFilter {
+    // Cutoff frequency (Hz) at rest; lower = less jitter
+    public minCutoff: number;
+    // How quickly the cutoff rises with speed; higher = less lag
+    public beta: number;
+    // Cutoff used to smooth the derivative
+    public derivativeCutoff: number;
+
+    private value: vec3 | null = null;
+    private derivative: vec3 = vec3.zero();
+
+    constructor(minCutoff: number = 1.0, beta: number = 0.01, derivativeCutoff: number = 1.0) {
+        this.minCutoff = minCutoff;
+        this.beta = beta;
+        this.derivativeCutoff = derivativeCutoff;
+    }
+
+    public reset(): void {
+        this.value = null;
+        this.derivative = vec3.zero();
+    }
+
+    public filter(current: vec3, deltaTime: number): vec3 {
+        if (!this.value || deltaTime <= 0) {
+            this.value = current;
+            return current;
+        }
+
+        const rawDerivative = current.sub(this.value).uniformScale(1.0 / deltaTime);
+        const derivativeAlpha = this.alpha(this.derivativeCutoff, deltaTime);
+        this.derivative = this.lerp(this.derivative, rawDerivative, derivativeAlpha);
+
+        const cutoff = this.minCutoff + this.beta * this.derivative.length;
+        this.value = this.lerp(this.value, current, this.alpha(cutoff, deltaTime));
+        return this.value;
+    }
+
+    private alpha(cutoff: number, deltaTime: number): number {
+        const tau = 1.0 / (2 * Math.PI * cutoff);
+        return 1.0 / (1.0 + tau / deltaTime);
+    }
+
+    private lerp(from: vec3, to: vec3, t: number): vec3 {
+        return from.add(to.sub(from).uniformScale(t));
+    }
+}
+
+// Constant-acceleration Kalman filter for one axis: state is [position, velocity, acceleration]
+class KalmanAxis {
+    public position: number = 0;
+    public velocity: number = 0;
+    public acceleration: number = 0;
+
+    // 3x3 covariance, row-major
+    private p: number[] = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+    public reset(position: number): void {
+        this.position = position;
+        this.velocity = 0;
+        this.acceleration = 0;
+        this.p = [1, 0, 0, 0, 1000, 0, 0, 0, 1000];
+    }
+
+    public update(measurement: number, dt: number, processNoise: number, measurementNoise: number): void {
+        // Predict: x = F x
+        const halfDt2 = 0.5 * dt * dt;
+        this.position += this.velocity * dt + this.acceleration * halfDt2;
+        this.velocity += this.acceleration * dt;
+
+        // P = F P F^T + Q
+        const f = [1, dt, halfDt2, 0, 1, dt, 0, 0, 1];
+        const fp = this.multiply(f, this.p);
+        const predicted = this.multiplyTransposed(fp, f);
+
+        // Process noise from white jerk
+        const dt2 = dt * dt;
+        const dt3 = dt2 * dt;
+        const dt4 = dt3 * dt;
+        const dt5 = dt4 * dt;
+        const q = [
+            dt5 / 20, dt4 / 8, dt3 / 6,
+            dt4 / 8, dt3 / 3, dt2 / 2,
+            dt3 / 6, dt2 / 2, dt
+        ];
+        for (let i = 0; i < 9; i++) {
+            predicted[i] += q[i] * processNoise;
+        }
+
+        // Update with a position measurement (H = [1, 0, 0])
+        const innovation = measurement - this.position;
+        const s = predicted[0] + measurementNoise;
+        const k0 = predicted[0] / s;
+        const k1 = predicted[3] / s;
+        const k2 = predicted[6] / s;
+
+        this.position += k0 * innovation;
+        this.velocity += k1 * innovation;
+        this.acceleration += k2 * innovation;
+
+        // P = (I - K H) P
+        const gains = [k0, k1, k2];
+        const updated: number[] = [];
+        for (let row = 0; row < 3; row++) {
+            for (let col = 0; col < 3; col++) {
+                updated[row * 3 + col] = predicted[row * 3 + col] - gains[row] * predicted[col];
+            }
+        }
+        this.p = updated;
+    }
+
+    private multiply(a: number[], b: number[]): number[] {
+        const result: number[] = [];
+        for (let row = 0; row < 3; row++) {
+            for (let col = 0; col < 3; col++) {
+                result[row * 3 + col] = a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col];
+            }
+        }
+        return result;
+    }
+
+    // a * b^T
+    private multiplyTransposed(a: number[], b: number[]): number[] {
+        const result: number[] = [];
+        for (let row = 0; row < 3; row++) {
+            for (let col = 0; col < 3; col++) {
+                result[row * 3 + col] = a[row * 3] * b[col * 3] + a[row * 3 + 1] * b[col * 3 + 1] + a[row * 3 + 2] * b[col * 3 + 2];
+            }
+        }
+        return result;
+    }
+}
+
+/**
+ * Constant-acceleration Kalman filter on a 3D position. Estimates velocity
+ * and acceleration together from noisy positions instead of differencing twice.
+ */
+export class KalmanMotionFilter {
+    // Expected jerk variance; higher = follows sudden changes faster
+    public processNoise: number;
+    // Position measurement variance; higher = smoother, more lag
+    public measurementNoise: number;
+
+    private axes: KalmanAxis[] = [new KalmanAxis(), new KalmanAxis(), new KalmanAxis()];
+    private isInitialized: boolean = false;
+
+    constructor(processNoise: number = 5000.0, measurementNoise: number = 0.01) {
+        this.processNoise = processNoise;
+        this.measurementNoise = measurementNoise;
+    }
+
+    public get position(): vec3 {
+        return new vec3(this.axes[0].position, this.axes[1].position, this.axes[2].position);
+    }
+
+    public get velocity(): vec3 {
+        return new vec3(this.axes[0].velocity, this.axes[1].velocity, this.axes[2].velocity);
+    }
+
+    public get acceleration(): vec3 {
+        return new vec3(this.axes[0].acceleration, this.axes[1].acceleration, this.axes[2].acceleration);
+    }
+
+    public reset(): void {
+        this.isInitialized = false;
+    }
+
+    public update(position: vec3, deltaTime: number): void {
+        if (!this.isInitialized) {
+            this.axes[0].reset(position.x);
+            this.axes[1].reset(position.y);
+            this.axes[2].reset(position.z);
+            this.isInitialized = true;
+            return;
+        }
+        if (deltaTime <= 0) {
+            return;
+        }
+        this.axes[0].update(position.x, deltaTime, this.processNoise, this.measurementNoise);
+        this.axes[1].update(position.y, deltaTime, this.processNoise, this.measurementNoise);
+        this.axes[2].update(position.z, deltaTime, this.processNoise, this.measurementNoise);
+    }
+}
+
+// Filter settings read by MotionEstimator; components pass themselves
+export type MotionFilterSettings = {
+    filterMode: number;
+    smoothingFactor: number;
+    oneEuroMinCutoff: number;
+    oneEuroBeta: number;
+    kalmanProcessNoise: number;
+    kalmanMeasurementNoise: number;
+};
+
+/**
+ * Velocity and acceleration of one signal (a position, or an accumulated
+ * rotation) with the filter mode and settings chosen by its owner
+ */
+export class MotionEstimator {
+    private currentPosition: vec3 | null = null;
+    private smoothedVelocity: vec3 = vec3.zero();
+    private acceleration: vec3 = vec3.zero();
+    private previousTime: number = 0;
+
+    private velocityFilter: OneEuroFilter = new OneEuroFilter();
+    private accelerationFilter: OneEuroFilter = new OneEuroFilter();
+    private kalmanFilter: KalmanMotionFilter = new KalmanMotionFilter();
+
+    public get hasPosition(): boolean {
+        return this.currentPosition !== null;
+    }
+
+    public get position(): vec3 {
+        return this.currentPosition || vec3.zero();
+    }
+
+    public get velocity(): vec3 {
+        return this.smoothedVelocity;
+    }
+
+    public get speed(): number {
+        return this.smoothedVelocity.length;
+    }
+
+    public get accelerationVector(): vec3 {
+        return this.acceleration;
+    }
+
+    /**
+     * Feed one sample
+     * @param time Sample time in seconds
+     * @param position Position (or other vector) at that time
+     */
+    public update(time: number, position: vec3, settings: MotionFilterSettings): void {
+        const isKalman = settings.filterMode === FilterMode.Kalman;
+        if (!this.currentPosition) {
+            this.currentPosition = position;
+            this.previousTime = time;
+            if (isKalman) {
+                this.kalmanFilter.update(position, 0);
+            }
+            return;
+        }
+
+        const deltaTime = time - this.previousTime;
+        if (deltaTime <= 0) {
+            return;
+        }
+
+        if (isKalman) {
+            this.kalmanFilter.processNoise = settings.kalmanProcessNoise;
+            this.kalmanFilter.measurementNoise = settings.kalmanMeasurementNoise;
+            this.kalmanFilter.update(position, deltaTime);
+            this.smoothedVelocity = this.kalmanFilter.velocity;
+            this.acceleration = this.kalmanFilter.acceleration;
+        } else {
+            const rawVelocity = position.sub(this.currentPosition).uniformScale(1.0 / deltaTime);
+            const previousVelocity = this.smoothedVelocity;
+            if (settings.filterMode === FilterMode.OneEuro) {
+                this.velocityFilter.minCutoff = settings.oneEuroMinCutoff;
+                this.velocityFilter.beta = settings.oneEuroBeta;
+                this.accelerationFilter.minCutoff = settings.oneEuroMinCutoff;
+                this.accelerationFilter.beta = settings.oneEuroBeta;
+                this.smoothedVelocity = this.velocityFilter.filter(rawVelocity, deltaTime);
+            } else {
+                this.smoothedVelocity = smoothVector(previousVelocity, rawVelocity, settings.smoothingFactor, deltaTime);
+            }
+
+            this.acceleration = this.smoothedVelocity.sub(previousVelocity).uniformScale(1.0 / deltaTime);
+            if (settings.filterMode === FilterMode.OneEuro) {
+                this.acceleration = this.accelerationFilter.filter(this.acceleration, deltaTime);
+            }
+        }
+
+        this.currentPosition = position;
+        this.previousTime = time;
+    }
+
+    public reset(): void {
+        this.currentPosition = null;
+        this.smoothedVelocity = vec3.zero();
+        this.acceleration = vec3.zero();
+        this.velocityFilter.reset();
+        this.accelerationFilter.reset();
+        this.kalmanFilter.reset();
+    }
+}
@@ -0,0 +1,244 @@
+/**
+ * MotionModulator.ts
+ *
+ * Modulation matrix: routes any motion signal from AccelerationCalculator to
+ * any named AudioController parameter. Every route has its own input range,
+ * response curve, output range and smoothing, and all routes run each frame,
+ * so one gesture can bend rate, volume and the crossfader at the same time.
+ */
+
+import { AccelerationCalculator } from "./AccelerationCalculator";
+import { AudioController } from "./AudioController";
+import { LogLevel, Logger, setCategoryLevel } from "./Logger";
+import { smoothScalar } from "./MotionFilter";
+import { MotionSource, readMotionSource } from "./MotionSource";
+import { CurveType, ResponseCurve } from "./ResponseCurve";
+
+const log = new Logger("MotionModulator");
+
+@typedef
+export class ModulationRoute {
+    @input
+    @hint("Turn this route on or off")
+    enabled: boolean = true;
+
+    @input
+    @hint("Motion signal to read")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Velocity Magnitude", MotionSource.VelocityMagnitude),
+        new ComboBoxItem("Acceleration Magnitude", MotionSource.AccelerationMagnitude),
+        new ComboBoxItem("Velocity X", MotionSource.VelocityX),
+        new ComboBoxItem("Velocity Y", MotionSource.VelocityY),
+        new ComboBoxItem("Velocity Z", MotionSource.VelocityZ),
+        new ComboBoxItem("Acceleration X", MotionSource.AccelerationX),
+        new ComboBoxItem("Acceleration Y", MotionSource.AccelerationY),
+        new ComboBoxItem("Acceleration Z", MotionSource.AccelerationZ),
+        new ComboBoxItem("Velocity In Direction", MotionSource.VelocityInDirection),
+        new ComboBoxItem("Acceleration In Direction", MotionSource.AccelerationInDirection),
+        new ComboBoxItem("Angular Speed", MotionSource.AngularSpeed),
+        new ComboBoxItem("Angular Acceleration Magnitude", MotionSource.AngularAccelerationMagnitude),
+        new ComboBoxItem("Angular Velocity X", MotionSource.AngularVelocityX),
+        new ComboBoxItem("Angular Velocity Y", MotionSource.AngularVelocityY),
+        new ComboBoxItem("Angular Velocity Z", MotionSource.AngularVelocityZ),
+        new ComboBoxItem("Angular Velocity Around Direction", MotionSource.AngularVelocityInDirection),
+        new ComboBoxItem("Roll", MotionSource.Roll),
+        new ComboBoxItem("Pitch", MotionSource.Pitch),
+        new ComboBoxItem("Yaw", MotionSource.Yaw)
+    ]))
+    source: number = MotionSource.VelocityMagnitude;
+
+    @input
+    @hint("Direction for the 'In Direction' sources, or the rotation axis for 'Angular Velocity Around Direction'")
+    direction: vec3 = new vec3(0, 1, 0);
+
+    @input
+    @hint("AudioController parameter to drive, e.g. rate, volume, crossfader, pan, deckA.volume, deckA.lowpass.cutoff")
+    parameter: string = "volume";
+
+    @input
+    @hint("Motion value mapped to the start of the output range")
+    inputMin: number = 0.0;
+
+    @input
+    @hint("Motion value mapped to the end of the output range")
+    inputMax: number = 1.0;
+
+    @input
+    @hint("Parameter value at inputMin")
+    outputMin: number = 0.0;
+
+    @input
+    @hint("Parameter value at inputMax")
+    outputMax: number = 1.0;
+
+    @input
+    @hint("Shape of the mapping between the input and output ranges")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Linear", CurveType.Linear),
+        new ComboBoxItem("Exponential", CurveType.Exponential),
+        new ComboBoxItem("Logarithmic", CurveType.Logarithmic),
+        new ComboBoxItem("S-Curve", CurveType.SCurve),
+        new ComboBoxItem("Piecewise (control points)", CurveType.Piecewise)
+    ]))
+    curve: number = CurveType.Linear;
+
+    @input
+    @hint("Curve steepness for exponential, logarithmic and S-curve")
+    @widget(new SliderWidget(0.1, 10.0, 0.1))
+    curveAmount: number = 3.0;
+
+    @input
+    @hint("Piecewise control points as x:y pairs in 0..1, e.g. 0:0, 0.5:0.2, 1:1")
+    curvePoints: string = "0:0, 1:1";
+
+    @input
+    @hint("Smoothing factor at 60fps (0 = instant, 0.9 = very smooth)")
+    @widget(new SliderWidget(0.0, 0.95, 0.01))
+    smoothing: number = 0.5;
+}
+
+// Runtime state kept next to each configured route
+class RouteState {
+    public curve: ResponseCurve;
+    public value: number = NaN;
+    public isValid: boolean = true;
+    public isChecked: boolean = false;
+
+    constructor(curve: ResponseCurve) {
+        this.curve = curve;
+    }
+}
+
+@component
+export class MotionModulator extends BaseScriptComponent {
+    @input
+    @hint("AccelerationCalculator component to read motion data from")
+    accelerationCalculator: AccelerationCalculator;
+
+    @input
+    @hint("AudioController component whose parameters are driven")
+    audioController: AudioController;
+
+    @input
+    @hint("Motion-to-parameter routes, all evaluated every frame")
+    routes: ModulationRoute[] = [];
+
+    @input
+    @hint("Log debug output for this component (raises its log level to Debug)")
+    enableDebugLogging: boolean = false;
+
+    private states: RouteState[] = [];
+
+    onAwake(): void {
+        if (this.enableDebugLogging) {
+            setCategoryLevel(log.category, LogLevel.Debug);
+        }
+
+        if (!this.accelerationCalculator) {
+            log.error("No AccelerationCalculator specified!");
+            return;
+        }
+
+        if (!this.audioController) {
+            log.error("No AudioController specified!");
+            return;
+        }
+
+        for (let i = 0; i < this.routes.length; i++) {
+            this.states[i] = this.createState(this.routes[i]);
+        }
+
+        this.createEvent("UpdateEvent").bind(() => {
+            this.updateRoutes();
+        });
+
+        log.info("Initialized with " + this.routes.length + " route(s)");
+    }
+
+    /**
+     * Add a route from script
+     * @returns Index of the new route
+     */
+    public addRoute(route: ModulationRoute): number {
+        const index = this.routes.length;
+        this.routes.push(route);
+        this.states[index] = this.createState(route);
+        return index;
+    }
+
+    /**
+     * Remove a route by index
+     */
+    public removeRoute(index: number): void {
+        if (index < 0 || index >= this.routes.length) {
+            return;
+        }
+        this.routes.splice(index, 1);
+        this.states.splice(index, 1);
+    }
+
+    /**
+     * Get the last value a route wrote to its parameter (NaN before the first update)
+     */
+    public getRouteValue(index: number): number {
+        const state = this.states[index];
+        return state ? state.value : NaN;
+    }
+
+    private createState(route: ModulationRoute): RouteState {
+        const curve = new ResponseCurve(route.curve, route.curveAmount);
+        curve.setControlPointsFromString(route.curvePoints);
+        return new RouteState(curve);
+    }
+
+    // Checked on first use: effect parameters only exist once AudioController has awoken
+    private validateRoute(route: ModulationRoute, state: RouteState, index: number): void {
+        state.isChecked = true;
+        if (!this.audioController.hasParameter(route.parameter)) {
+            state.isValid = false;
+            log.warn("Route " + index + " targets unknown parameter \"" + route.parameter +
+                "\". Available: " + this.audioController.getParameterNames().join(", "));
+        }
+    }
+
+    private updateRoutes(): void {
+        const deltaTime = getDeltaTime();
+        for (let i = 0; i < this.routes.length; i++) {
+            const route = this.routes[i];
+            const state = this.states[i];
+            if (!route.enabled || !state) {
+                continue;
+            }
+            if (!state.isChecked) {
+                this.validateRoute(route, state, i);
+            }
+            if (!state.isValid) {
+                continue;
+            }
+
+            const motion = readMotionSource(this.accelerationCalculator, route.source, route.direction);
+            const target = this.mapRoute(route, state, motion);
+
+            // Exponential moving average, starting from the first mapped value
+            if (isNaN(state.value)) {
+                state.value = target;
+            } else {
+                state.value = smoothScalar(state.value, target, route.smoothing, deltaTime);
+            }
+
+            this.audioController.setParameter(route.parameter, state.value);
+
+            if (log.isEnabled(LogLevel.Debug)) {
+                log.debug("Route " + i + " " + route.parameter +
+                    " | Motion: " + motion.toFixed(4) + " | Value: " + state.value.toFixed(4));
+            }
+        }
+    }
+
+    private mapRoute(route: ModulationRoute, state: RouteState, motion: number): number {
+        const range = route.inputMax - route.inputMin;
+        const normalized = range !== 0 ? (motion - route.inputMin) / range : 0.0;
+        const shaped = state.curve.evaluate(normalized);
+        return route.outputMin + shaped * (route.outputMax - route.outputMin);
+    }
+}
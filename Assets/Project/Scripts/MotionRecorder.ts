@@ -0,0 +1,122 @@
+/**
+ * MotionRecorder.ts
+ *
+ * Records a SceneObject's world position and rotation every frame into a
+ * MotionTrace. The trace JSON is printed when recording stops so it can be
+ * copied into AccelerationCalculator's replayTraceJson input.
+ */
+
+import { Logger } from "./Logger";
+import { MotionTrace } from "./MotionTrace";
+
+const log = new Logger("MotionRecorder");
+
+// Lines longer than this are split when printing the trace
+const PRINT_CHUNK_SIZE = 1000;
+
+@component
+export class MotionRecorder extends BaseScriptComponent {
+    @input
+    @hint("The object to record")
+    targetObject: SceneObject;
+
+    @input
+    @hint("Start recording as soon as the lens starts")
+    recordOnStart: boolean = false;
+
+    @input
+    @hint("Stop automatically after this many seconds (0 = no limit)")
+    maxDuration: number = 30.0;
+
+    @input
+    @hint("Print the trace JSON when recording stops")
+    printOnStop: boolean = true;
+
+    private trace: MotionTrace = new MotionTrace();
+    private recording: boolean = false;
+    private startTime: number = 0;
+
+    public get isRecording(): boolean {
+        return this.recording;
+    }
+
+    onAwake(): void {
+        if (!this.targetObject) {
+            log.error("No target object specified!");
+            return;
+        }
+
+        this.createEvent("UpdateEvent").bind(() => {
+            this.recordFrame();
+        });
+
+        if (this.recordOnStart) {
+            this.startRecording();
+        }
+    }
+
+    /**
+     * Clear the previous trace and start recording
+     */
+    public startRecording(): void {
+        this.trace = new MotionTrace();
+        this.startTime = getTime();
+        this.recording = true;
+        this.recordFrame();
+        log.info("Recording started");
+    }
+
+    /**
+     * Stop recording
+     * @returns The recorded trace
+     */
+    public stopRecording(): MotionTrace {
+        if (!this.recording) {
+            return this.trace;
+        }
+        this.recording = false;
+        log.info("Recording stopped - " + this.trace.length + " samples, " +
+            this.trace.duration.toFixed(2) + "s");
+
+        if (this.printOnStop) {
+            this.printTrace();
+        }
+        return this.trace;
+    }
+
+    /**
+     * The last recorded trace (or the one in progress)
+     */
+    public getTrace(): MotionTrace {
+        return this.trace;
+    }
+
+    public getTraceJson(): string {
+        return this.trace.toJSON();
+    }
+
+    private recordFrame(): void {
+        if (!this.recording) {
+            return;
+        }
+
+        const time = getTime() - this.startTime;
+        const transform = this.targetObject.getTransform();
+        this.trace.add(time, transform.getWorldPosition(), transform.getWorldRotation());
+
+        if (this.maxDuration > 0 && time >= this.maxDuration) {
+            this.stopRecording();
+        }
+    }
+
+    // The logger truncates long lines, so print in chunks to be joined back together
+    private printTrace(): void {
+        const json = this.trace.toJSON();
+        const chunkCount = Math.ceil(json.length / PRINT_CHUNK_SIZE);
+        print("MotionRecorder: TRACE BEGIN (" + chunkCount + " chunks)");
+        for (let i = 0; i < chunkCount; i++) {
+            print(json.substring(i * PRINT_CHUNK_SIZE, (i + 1) * PRINT_CHUNK_SIZE));
+        }
+        print("MotionRecorder: TRACE END");
+    }
+}
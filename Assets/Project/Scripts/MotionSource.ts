@@ -0,0 +1,114 @@
+/**
+ * MotionSource.ts
+ *
+ * The scalar signals that can be read from an AccelerationCalculator and
+ * routed to audio parameters.
+ *
+ * Units: position sources are in world units (per second, per second²).
+ * Angular velocity and acceleration are in turns (360 degrees = 1) and
+ * roll/pitch/yaw in quarter turns (90 degrees = 1), so the thresholds and
+ * ranges tuned for position motion cover them too. AccelerationCalculator's
+ * own getters stay in degrees.
+ */
+
+import { AccelerationCalculator } from "./AccelerationCalculator";
+
+export enum MotionSource {
+    VelocityMagnitude = 0,
+    AccelerationMagnitude = 1,
+    VelocityX = 2,
+    VelocityY = 3,
+    VelocityZ = 4,
+    AccelerationX = 5,
+    AccelerationY = 6,
+    AccelerationZ = 7,
+    VelocityInDirection = 8,
+    AccelerationInDirection = 9,
+    AngularSpeed = 10,
+    AngularAccelerationMagnitude = 11,
+    AngularVelocityX = 12,
+    AngularVelocityY = 13,
+    AngularVelocityZ = 14,
+    AngularVelocityInDirection = 15,
+    Roll = 16,
+    Pitch = 17,
+    Yaw = 18
+}
+
+// Angular velocity and acceleration are scaled to turns (360 degrees = 1)
+const TURNS_PER_DEGREE = 1.0 / 360.0;
+// Roll, pitch and yaw are scaled to quarter turns (90 degrees = 1)
+const QUARTER_TURNS_PER_DEGREE = 1.0 / 90.0;
+
+/**
+ * Read a motion signal, in the units above
+ * @param calculator Motion data provider
+ * @param source Which signal to read
+ * @param direction Direction (or rotation axis) for the *InDirection sources
+ */
+export function readMotionSource(calculator: AccelerationCalculator, source: MotionSource, direction: vec3): number {
+    return readInDegrees(calculator, source, direction) * motionSourceScale(source);
+}
+
+// The signal as AccelerationCalculator reports it, angular sources in degrees
+function readInDegrees(calculator: AccelerationCalculator, source: MotionSource, direction: vec3): number {
+    switch (source) {
+        case MotionSource.AccelerationMagnitude:
+            return calculator.accelerationMagnitude;
+        case MotionSource.VelocityX:
+            return calculator.velocity.x;
+        case MotionSource.VelocityY:
+            return calculator.velocity.y;
+        case MotionSource.VelocityZ:
+            return calculator.velocity.z;
+        case MotionSource.AccelerationX:
+            return calculator.accelerationVector.x;
+        case MotionSource.AccelerationY:
+            return calculator.accelerationVector.y;
+        case MotionSource.AccelerationZ:
+            return calculator.accelerationVector.z;
+        case MotionSource.VelocityInDirection:
+            return calculator.getVelocityInDirection(direction);
+        case MotionSource.AccelerationInDirection:
+            return calculator.getAccelerationInDirection(direction);
+        case MotionSource.AngularSpeed:
+            return calculator.angularSpeed;
+        case MotionSource.AngularAccelerationMagnitude:
+            return calculator.angularAccelerationMagnitude;
+        case MotionSource.AngularVelocityX:
+            return calculator.angularVelocity.x;
+        case MotionSource.AngularVelocityY:
+            return calculator.angularVelocity.y;
+        case MotionSource.AngularVelocityZ:
+            return calculator.angularVelocity.z;
+        case MotionSource.AngularVelocityInDirection:
+            return calculator.getAngularVelocityAround(direction);
+        case MotionSource.Roll:
+            return calculator.roll;
+        case MotionSource.Pitch:
+            return calculator.pitch;
+        case MotionSource.Yaw:
+            return calculator.yaw;
+        default:
+            return calculator.velocityMagnitude;
+    }
+}
+
+// Factor from the calculator's degrees to the units above; 1 for position sources
+function motionSourceScale(source: MotionSource): number {
+    switch (source) {
+        case MotionSource.AngularSpeed:
+        case MotionSource.AngularAccelerationMagnitude:
+        case MotionSource.AngularVelocityX:
+        case MotionSource.AngularVelocityY:
+        case MotionSource.AngularVelocityZ:
+        case MotionSource.AngularVelocityInDirection:
+            return TURNS_PER_DEGREE;
+        case MotionSource.Roll:
+        case MotionSource.Pitch:
+        case MotionSource.Yaw:
+            return QUARTER_TURNS_PER_DEGREE;
+        default:
+            return 1.0;
+    }
+}
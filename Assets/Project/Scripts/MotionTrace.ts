@@ -0,0 +1,136 @@
+/**
+ * MotionTrace.ts
+ *
+ * A recorded stream of timestamped world positions and rotations. Traces are
+ * saved as compact JSON so a performance can be replayed through
+ * AccelerationCalculator for tuning, side-by-side comparisons and tests.
+ *
+ * JSON format:
+ * { "version": 1, "samples": [[time, px, py, pz, rx, ry, rz, rw], ...] }
+ * Times are in seconds relative to the first sample.
+ */
+
+import { Logger } from "./Logger";
+
+const log = new Logger("MotionTrace");
+
+export type MotionSample = {
+    time: number;
+    position: vec3;
+    rotation: quat;
+};
+
+const TRACE_VERSION = 1;
+
+export class MotionTrace {
+    private samples: MotionSample[] = [];
+
+    public get length(): number {
+        return this.samples.length;
+    }
+
+    /**
+     * Time of the last sample in seconds
+     */
+    public get duration(): number {
+        return this.samples.length > 0 ? this.samples[this.samples.length - 1].time : 0;
+    }
+
+    public getSample(index: number): MotionSample {
+        return this.samples[index];
+    }
+
+    /**
+     * Append a sample. Times must not go backwards.
+     */
+    public add(time: number, position: vec3, rotation: quat): void {
+        this.samples.push({ time: time, position: position, rotation: rotation });
+    }
+
+    public clear(): void {
+        this.samples = [];
+    }
+
+    public toJSON(): string {
+        const rows: number[][] = [];
+        for (let i = 0; i < this.samples.length; i++) {
+            const s = this.samples[i];
+            rows.push([
+                this.round(s.time),
+                this.round(s.position.x), this.round(s.position.y), this.round(s.position.z),
+                this.round(s.rotation.x), this.round(s.rotation.y), this.round(s.rotation.z), this.round(s.rotation.w)
+            ]);
+        }
+        return JSON.stringify({ version: TRACE_VERSION, samples: rows });
+    }
+
+    /**
+     * Parse a trace saved with toJSON. Samples with missing or non-finite
+     * values, or with a time before the previous sample, are skipped.
+     * @returns null if the text isn't a valid trace
+     */
+    public static fromJSON(json: string): MotionTrace | null {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(json);
+        } catch (e) {
+            return null;
+        }
+
+        const rows = sampleRows(parsed);
+        if (!rows) {
+            return null;
+        }
+
+        const trace = new MotionTrace();
+        let skipped = 0;
+        for (let i = 0; i < rows.length; i++) {
+            const row = rows[i];
+            if (!isSampleRow(row) || (trace.length > 0 && row[0] < trace.duration)) {
+                skipped++;
+                continue;
+            }
+            // Rotation is optional so position-only traces can be written by hand
+            const rotation = row.length >= 8 ?
+                new quat(row[7], row[4], row[5], row[6]) :
+                quat.quatIdentity();
+            trace.add(row[0], new vec3(row[1], row[2], row[3]), rotation);
+        }
+
+        if (skipped > 0) {
+            log.warn("Skipped " + skipped + " of " + rows.length + " trace samples with missing values or times going backwards");
+        }
+        if (rows.length > 0 && trace.length === 0) {
+            return null;
+        }
+        return trace;
+    }
+
+    // Keep the JSON compact: 6 decimals is well below tracking precision
+    private round(value: number): number {
+        return Math.round(value * 1e6) / 1e6;
+    }
+}
+
+// The samples array of a parsed trace, or null if there isn't one
+function sampleRows(parsed: unknown): unknown[] | null {
+    if (typeof parsed !== "object" || parsed === null) {
+        return null;
+    }
+    const samples = (parsed as { samples?: unknown }).samples;
+    return Array.isArray(samples) ? samples : null;
+}
+
+// A row of finite numbers: time and position, then optionally the rotation
+function isSampleRow(row: unknown): row is number[] {
+    if (!Array.isArray(row) || row.length < 4) {
+        return false;
+    }
+    const used = row.length >= 8 ? 8 : 4;
+    for (let i = 0; i < used; i++) {
+        if (typeof row[i] !== "number" || !isFinite(row[i])) {
+            return false;
+        }
+    }
+    return true;
+}
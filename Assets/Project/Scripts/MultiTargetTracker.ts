@@ -0,0 +1,243 @@
+/**
+ * MultiTargetTracker.ts
+ *
+ * Follows several objects at once, such as both hands or a hand and the
+ * head, and provides the motion of each one together with the relationships
+ * between them: distance, closing speed and relative velocity. Each target
+ * is filtered with a MotionEstimator, using the same filter modes as
+ * AccelerationCalculator.
+ *
+ * Positions can be measured in the space of a reference object instead of
+ * world space, e.g. hands relative to the head, which cancels out the user
+ * walking or turning around.
+ */
+
+import { LogLevel, Logger, setCategoryLevel } from "./Logger";
+import { FilterMode, MotionEstimator } from "./MotionFilter";
+
+const log = new Logger("MultiTargetTracker");
+
+export type TargetRelation = {
+    // Position of the second target relative to the first
+    relativePosition: vec3;
+    distance: number;
+    // Velocity of the second target relative to the first
+    relativeVelocity: vec3;
+    // Rate the distance shrinks at (negative while moving apart)
+    closingSpeed: number;
+};
+
+@component
+export class MultiTargetTracker extends BaseScriptComponent {
+    @input
+    @hint("Objects to track, e.g. left hand, right hand, head")
+    targetObjects: SceneObject[] = [];
+
+    @input
+    @hint("Measure motion relative to this object (e.g. the head or camera). Leave empty for world space")
+    @allowUndefined
+    referenceObject: SceneObject;
+
+    @input
+    @hint("Also turn with the reference object, so its rotation doesn't count as motion (off = only follow its position)")
+    followReferenceRotation: boolean = true;
+
+    @input
+    @hint("How velocity and acceleration are filtered")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Exponential (time-aware)", FilterMode.Exponential),
+        new ComboBoxItem("One Euro", FilterMode.OneEuro),
+        new ComboBoxItem("Kalman (constant acceleration)", FilterMode.Kalman)
+    ]))
+    filterMode: number = FilterMode.Exponential;
+
+    @input
+    @hint("Smoothing factor for velocity calculations at 60fps (0.0 = no smoothing, 0.9 = heavy smoothing)")
+    @widget(new SliderWidget(0.0, 0.95, 0.01))
+    smoothingFactor: number = 0.7;
+
+    @input
+    @hint("One Euro: cutoff frequency at rest in Hz (lower = less jitter)")
+    oneEuroMinCutoff: number = 1.0;
+
+    @input
+    @hint("One Euro: cutoff increase with speed (higher = less lag)")
+    oneEuroBeta: number = 0.01;
+
+    @input
+    @hint("Kalman: process noise (higher = follows sudden changes faster)")
+    kalmanProcessNoise: number = 5000.0;
+
+    @input
+    @hint("Kalman: position measurement noise (higher = smoother, more lag)")
+    kalmanMeasurementNoise: number = 0.01;
+
+    @input
+    @hint("Minimum speed to register a target as moving")
+    velocityThreshold: number = 0.01;
+
+    @input
+    @hint("Log debug output for this component (raises its log level to Debug)")
+    enableDebugLogging: boolean = false;
+
+    private targets: MotionEstimator[] = [];
+
+    onAwake(): void {
+        if (this.enableDebugLogging) {
+            setCategoryLevel(log.category, LogLevel.Debug);
+        }
+
+        if (this.targetObjects.length === 0) {
+            log.error("No target objects specified!");
+            return;
+        }
+        for (let i = 0; i < this.targetObjects.length; i++) {
+            this.targets[i] = new MotionEstimator();
+            if (!this.targetObjects[i]) {
+                log.warn("Target " + i + " is empty and will be ignored");
+            }
+        }
+
+        this.createEvent("UpdateEvent").bind(() => {
+            this.updateTargets(getTime());
+        });
+
+        log.info("Tracking " + this.targetObjects.length + " targets" +
+            (this.referenceObject ? " relative to " + this.referenceObject.name : ""));
+    }
+
+    public get targetCount(): number {
+        return this.targets.length;
+    }
+
+    /**
+     * Motion of one target, or null if there is no target at that index
+     */
+    public getTarget(index: number): MotionEstimator | null {
+        return this.targets[index] || null;
+    }
+
+    public getPosition(index: number): vec3 {
+        const target = this.targets[index];
+        return target ? target.position : vec3.zero();
+    }
+
+    public getVelocity(index: number): vec3 {
+        const target = this.targets[index];
+        return target ? target.velocity : vec3.zero();
+    }
+
+    public getAcceleration(index: number): vec3 {
+        const target = this.targets[index];
+        return target ? target.accelerationVector : vec3.zero();
+    }
+
+    public getSpeed(index: number): number {
+        const target = this.targets[index];
+        return target ? target.speed : 0;
+    }
+
+    public isMoving(index: number): boolean {
+        return this.getSpeed(index) > this.velocityThreshold;
+    }
+
+    /**
+     * Distance, relative velocity and closing speed between two targets
+     * @returns null unless both targets have been seen
+     */
+    public getRelation(indexA: number = 0, indexB: number = 1): TargetRelation | null {
+        const a = this.targets[indexA];
+        const b = this.targets[indexB];
+        if (!a || !b || !a.hasPosition || !b.hasPosition) {
+            return null;
+        }
+
+        const relativePosition = b.position.sub(a.position);
+        const relativeVelocity = b.velocity.sub(a.velocity);
+        const distance = relativePosition.length;
+        // Relative velocity along the line between them, towards each other
+        const closingSpeed = distance > 0 ? -relativeVelocity.dot(relativePosition.uniformScale(1.0 / distance)) : 0;
+        return {
+            relativePosition: relativePosition,
+            distance: distance,
+            relativeVelocity: relativeVelocity,
+            closingSpeed: closingSpeed
+        };
+    }
+
+    /**
+     * Distance between two targets, or 0 until both have been seen
+     */
+    public getDistance(indexA: number = 0, indexB: number = 1): number {
+        const relation = this.getRelation(indexA, indexB);
+        return relation ? relation.distance : 0;
+    }
+
+    /**
+     * How fast two targets approach each other (negative while moving apart)
+     */
+    public getClosingSpeed(indexA: number = 0, indexB: number = 1): number {
+        const relation = this.getRelation(indexA, indexB);
+        return relation ? relation.closingSpeed : 0;
+    }
+
+    /**
+     * Velocity of the second target as seen from the first
+     */
+    public getRelativeVelocity(indexA: number = 0, indexB: number = 1): vec3 {
+        const relation = this.getRelation(indexA, indexB);
+        return relation ? relation.relativeVelocity : vec3.zero();
+    }
+
+    /**
+     * Convert a world position into the space motion is measured in
+     */
+    public toTrackingSpace(worldPosition: vec3): vec3 {
+        if (!this.referenceObject) {
+            return worldPosition;
+        }
+        const transform = this.referenceObject.getTransform();
+        const offset = worldPosition.sub(transform.getWorldPosition());
+        if (!this.followReferenceRotation) {
+            return offset;
+        }
+        return transform.getWorldRotation().invert().multiplyVec3(offset);
+    }
+
+    /**
+     * Feed one position per target, in world space. Used every frame for the
+     * live targets, and can be called directly to drive the tracker from
+     * recorded or synthetic positions.
+     * @param time Sample time in seconds
+     * @param worldPositions One position per target; null entries are skipped
+     */
+    public processSample(time: number, worldPositions: (vec3 | null)[]): void {
+        for (let i = 0; i < this.targets.length; i++) {
+            const position = worldPositions[i];
+            if (position) {
+                this.targets[i].update(time, this.toTrackingSpace(position), this);
+            }
+        }
+
+        if (log.isEnabled(LogLevel.Trace) && this.targets.length >= 2) {
+            log.trace("Distance: " + this.getDistance().toFixed(3) +
+                " | Closing speed: " + this.getClosingSpeed().toFixed(3));
+        }
+    }
+
+    /**
+     * Forget all motion history, e.g. after the targets were re-tracked
+     */
+    public reset(): void {
+        this.targets.forEach((target) => target.reset());
+    }
+
+    private updateTargets(time: number): void {
+        const positions: (vec3 | null)[] = [];
+        for (let i = 0; i < this.targetObjects.length; i++) {
+            const target = this.targetObjects[i];
+            positions[i] = target ? target.getTransform().getWorldPosition() : null;
+        }
+        this.processSample(time, positions);
+    }
+}
@@ -0,0 +1,147 @@
+/**
+ * OutputScheduler.ts
+ *
+ * Keeps track of how much audio is waiting in the output queue and how much
+ * to render each frame to keep it at a target latency. The output doesn't
+ * report its fill level, so it is estimated: everything enqueued, minus what
+ * the device has played since (elapsed time x sample rate).
+ *
+ * A long frame that drains the queue counts as an underrun (audible gap); a
+ * queue above the maximum latency counts as an overrun and nothing is
+ * rendered until it drains back.
+ */
+
+// Latency figures are the queue level sampled each frame just before it is refilled
+export type OutputStats = {
+    // Estimated audio waiting to be played, in seconds
+    queuedSeconds: number;
+    targetLatency: number;
+    averageLatency: number;
+    minLatency: number;
+    maxLatency: number;
+    underruns: number;
+    overruns: number;
+    // Estimated frames of silence heard during underruns
+    underrunFrames: number;
+};
+
+// Weight of the latest frame in the running average latency
+const AVERAGE_WEIGHT = 0.05;
+
+export class OutputScheduler {
+    public sampleRate: number;
+    // Queue level to fill up to, in seconds
+    public targetLatency: number;
+    // Queue level above which an overrun is counted, in seconds
+    public maxLatency: number;
+
+    private queuedFrames: number = 0;
+    private lastTime: number = -1;
+    private underruns: number = 0;
+    private overruns: number = 0;
+    private underrunFrames: number = 0;
+    private averageLatency: number = 0;
+    private minLatency: number = Infinity;
+    private maxLatencySeen: number = 0;
+    private inOverrun: boolean = false;
+
+    constructor(sampleRate: number, targetLatency: number = 0.05, maxLatency: number = 0.15) {
+        this.sampleRate = sampleRate;
+        this.targetLatency = targetLatency;
+        this.maxLatency = maxLatency;
+    }
+
+    /**
+     * Estimated audio waiting to be played, in seconds
+     */
+    public get queuedSeconds(): number {
+        return this.queuedFrames / this.sampleRate;
+    }
+
+    public get underrunCount(): number {
+        return this.underruns;
+    }
+
+    public get overrunCount(): number {
+        return this.overruns;
+    }
+
+    /**
+     * Account for the audio played since the last call and work out how many
+     * frames to render now
+     * @param time Current time in seconds
+     * @param maxFrames Most frames the output accepts in one call
+     * @returns Frames needed to bring the queue up to the target latency
+     */
+    public framesNeeded(time: number, maxFrames: number): number {
+        const isFirstFrame = this.lastTime < 0;
+        if (!isFirstFrame && time > this.lastTime) {
+            this.queuedFrames -= (time - this.lastTime) * this.sampleRate;
+        }
+        this.lastTime = time;
+
+        if (this.queuedFrames < 0) {
+            // The device ran dry before this frame
+            this.underruns++;
+            this.underrunFrames += Math.round(-this.queuedFrames);
+            this.queuedFrames = 0;
+        }
+
+        if (!isFirstFrame) {
+            this.updateLatencyStats();
+        }
+
+        const queued = this.queuedSeconds;
+        if (queued > this.maxLatency) {
+            // Count each overrun once, not every frame it lasts
+            if (!this.inOverrun) {
+                this.overruns++;
+                this.inOverrun = true;
+            }
+            return 0;
+        }
+        this.inOverrun = false;
+
+        const needed = Math.ceil(this.targetLatency * this.sampleRate - this.queuedFrames);
+        return Math.max(0, Math.min(maxFrames, needed));
+    }
+
+    /**
+     * Record frames handed to the output
+     */
+    public enqueued(frames: number): void {
+        this.queuedFrames += frames;
+    }
+
+    public getStats(): OutputStats {
+        return {
+            queuedSeconds: this.queuedSeconds,
+            targetLatency: this.targetLatency,
+            averageLatency: this.averageLatency,
+            minLatency: this.minLatency === Infinity ? 0 : this.minLatency,
+            maxLatency: this.maxLatencySeen,
+            underruns: this.underruns,
+            overruns: this.overruns,
+            underrunFrames: this.underrunFrames
+        };
+    }
+
+    /**
+     * Clear the counters and latency statistics; the queue estimate is kept
+     */
+    public resetStats(): void {
+        this.underruns = 0;
+        this.overruns = 0;
+        this.underrunFrames = 0;
+        this.averageLatency = this.queuedSeconds;
+        this.minLatency = Infinity;
+        this.maxLatencySeen = 0;
+    }
+
+    private updateLatencyStats(): void {
+        const latency = this.queuedSeconds;
+        this.averageLatency += (latency - this.averageLatency) * AVERAGE_WEIGHT;
+        this.minLatency = Math.min(this.minLatency, latency);
+        this.maxLatencySeen = Math.max(this.maxLatencySeen, latency);
+    }
+}
@@ -0,0 +1,87 @@
+/**
+ * PitchQuantizer.ts
+ *
+ * Snaps playback-rate ratios to musical intervals. A rate of 2.0 is one octave
+ * (12 semitones) up, so rates are converted to semitones, snapped to the
+ * nearest allowed note and converted back.
+ */
+
+export enum QuantizeMode {
+    Off = 0,
+    Semitone = 1,
+    Scale = 2
+}
+
+export enum MusicalScale {
+    Major = 0,
+    NaturalMinor = 1,
+    MajorPentatonic = 2,
+    MinorPentatonic = 3,
+    Blues = 4,
+    Dorian = 5
+}
+
+// Allowed semitone offsets from the root within one octave
+const SCALE_DEGREES: { [scale: number]: number[] } = {
+    [MusicalScale.Major]: [0, 2, 4, 5, 7, 9, 11],
+    [MusicalScale.NaturalMinor]: [0, 2, 3, 5, 7, 8, 10],
+    [MusicalScale.MajorPentatonic]: [0, 2, 4, 7, 9],
+    [MusicalScale.MinorPentatonic]: [0, 3, 5, 7, 10],
+    [MusicalScale.Blues]: [0, 3, 5, 6, 7, 10],
+    [MusicalScale.Dorian]: [0, 2, 3, 5, 7, 9, 10]
+};
+const ALL_SEMITONES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+// Notes this close (in semitones) outside the rate range still count as inside
+const RANGE_TOLERANCE = 1e-6;
+
+export function rateToSemitones(rate: number): number {
+    return 12.0 * Math.log(rate) / Math.LN2;
+}
+
+export function semitonesToRate(semitones: number): number {
+    return Math.pow(2.0, semitones / 12.0);
+}
+
+/**
+ * Snap a rate to the nearest semitone or scale note within a range
+ * @param rate Playback rate (must be > 0; other values are returned unchanged)
+ * @param mode Quantization mode
+ * @param scale Scale used in Scale mode
+ * @param rootSemitone Scale root relative to the track's own pitch (0 = unchanged)
+ * @param minRate Lowest rate a note may snap to
+ * @param maxRate Highest rate a note may snap to. If no note fits the range the rate is only clamped.
+ */
+export function quantizeRate(rate: number, mode: QuantizeMode, scale: MusicalScale = MusicalScale.Major, rootSemitone: number = 0,
+                             minRate: number = 0, maxRate: number = Infinity): number {
+    if (mode === QuantizeMode.Off || rate <= 0) {
+        return rate;
+    }
+
+    const semitones = rateToSemitones(rate);
+    const lowest = minRate > 0 ? rateToSemitones(minRate) - RANGE_TOLERANCE : -Infinity;
+    const highest = rateToSemitones(maxRate) + RANGE_TOLERANCE;
+    const degrees = mode === QuantizeMode.Semitone ? ALL_SEMITONES : SCALE_DEGREES[scale] || SCALE_DEGREES[MusicalScale.Major];
+    const root = mode === QuantizeMode.Semitone ? 0 : rootSemitone;
+    const relative = semitones - root;
+    const octave = Math.floor(relative / 12.0);
+
+    // Check the notes of this octave and its neighbours for the closest one in range
+    let best = NaN;
+    let bestDistance = Infinity;
+    for (let o = octave - 1; o <= octave + 1; o++) {
+        for (let i = 0; i < degrees.length; i++) {
+            const candidate = o * 12 + degrees[i];
+            const distance = Math.abs(candidate - relative);
+            if (distance < bestDistance && candidate + root >= lowest && candidate + root <= highest) {
+                bestDistance = distance;
+                best = candidate;
+            }
+        }
+    }
+
+    if (isNaN(best)) {
+        return Math.max(minRate, Math.min(maxRate, rate));
+    }
+    return semitonesToRate(best + root);
+}
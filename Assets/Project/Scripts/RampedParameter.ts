@@ -0,0 +1,110 @@
+/**
+ * RampedParameter.ts
+ *
+ * A control value that glides to a new target in a straight line over a ramp
+ * instead of jumping. The renderer reads it once per sample, so a rate or
+ * volume updated once per frame is heard as a continuous change rather than
+ * as steps at the frame rate (zipper noise).
+ */
+
+// Default ramp time in seconds, about two frames at 60 fps
+export const DEFAULT_RAMP_TIME = 0.03;
+
+export class RampedParameter {
+    private current: number;
+    private targetValue: number;
+    private increment: number = 0;
+    // Samples left until the target is reached
+    private remaining: number = 0;
+
+    constructor(value: number) {
+        this.current = value;
+        this.targetValue = value;
+    }
+
+    /**
+     * Value at the current sample
+     */
+    public get value(): number {
+        return this.current;
+    }
+
+    public get target(): number {
+        return this.targetValue;
+    }
+
+    public get isRamping(): boolean {
+        return this.remaining > 0;
+    }
+
+    /**
+     * Glide to a new value. Setting the target it already has keeps the
+     * ramp in progress, so this can be called every frame.
+     * @param rampFrames Length of the ramp in samples (0 = jump)
+     */
+    public setTarget(value: number, rampFrames: number): void {
+        if (value === this.targetValue) {
+            return;
+        }
+        const frames = Math.round(rampFrames);
+        if (!(frames > 0) || !isFinite(value) || !isFinite(this.current)) {
+            this.jump(value);
+            return;
+        }
+        this.targetValue = value;
+        this.increment = (value - this.current) / frames;
+        this.remaining = frames;
+    }
+
+    /**
+     * Set the value immediately, cancelling any ramp
+     */
+    public jump(value: number): void {
+        this.current = value;
+        this.targetValue = value;
+        this.increment = 0;
+        this.remaining = 0;
+    }
+
+    /**
+     * Advance one sample
+     * @returns The value at the new sample
+     */
+    public next(): number {
+        if (this.remaining > 0) {
+            this.remaining--;
+            this.current = this.remaining === 0 ? this.targetValue : this.current + this.increment;
+        }
+        return this.current;
+    }
+
+    /**
+     * Advance several samples at once
+     * @returns The value after the last of them
+     */
+    public advance(frames: number): number {
+        if (this.remaining > 0) {
+            if (frames >= this.remaining) {
+                this.current = this.targetValue;
+                this.remaining = 0;
+            } else {
+                this.current += this.increment * frames;
+                this.remaining -= frames;
+            }
+        }
+        return this.current;
+    }
+
+    /**
+     * Write the value of each of the next count samples
+     */
+    public fill(buffer: Float64Array, count: number): void {
+        if (this.remaining <= 0) {
+            buffer.fill(this.current, 0, count);
+            return;
+        }
+        for (let i = 0; i < count; i++) {
+            buffer[i] = this.next();
+        }
+    }
+}
@@ -0,0 +1,111 @@
+/**
+ * ResponseCurve.ts
+ *
+ * Shapes a normalised control value (0..1) before it is mapped to an audio
+ * parameter. Used by AccelerationToRate so motion can feel gentle at first and
+ * steep later (or the other way round) instead of strictly linear.
+ */
+
+export enum CurveType {
+    Linear = 0,
+    Exponential = 1,
+    Logarithmic = 2,
+    SCurve = 3,
+    Piecewise = 4
+}
+
+export class ResponseCurve {
+    public type: CurveType;
+
+    // Steepness for exponential/logarithmic/S-curve (higher = more pronounced)
+    public amount: number;
+
+    // Control points for the piecewise curve, sorted by x
+    private pointsX: number[] = [];
+    private pointsY: number[] = [];
+
+    constructor(type: CurveType = CurveType.Linear, amount: number = 3.0) {
+        this.type = type;
+        this.amount = amount;
+    }
+
+    /**
+     * Set piecewise control points from text such as "0:0, 0.5:0.2, 1:1"
+     * (x:y pairs in 0..1, separated by commas)
+     * @returns false if no valid point was found
+     */
+    public setControlPointsFromString(text: string): boolean {
+        const points: number[][] = [];
+        const pairs = text.split(",");
+        for (let i = 0; i < pairs.length; i++) {
+            const parts = pairs[i].split(":");
+            if (parts.length !== 2) {
+                continue;
+            }
+            const x = parseFloat(parts[0]);
+            const y = parseFloat(parts[1]);
+            if (!isNaN(x) && !isNaN(y)) {
+                points.push([x, y]);
+            }
+        }
+
+        if (points.length === 0) {
+            return false;
+        }
+
+        points.sort((a, b) => a[0] - b[0]);
+        this.pointsX = points.map((p) => p[0]);
+        this.pointsY = points.map((p) => p[1]);
+        return true;
+    }
+
+    /**
+     * Map a value in 0..1 through the curve
+     */
+    public evaluate(value: number): number {
+        const x = Math.max(0.0, Math.min(1.0, value));
+        const k = Math.max(0.001, this.amount);
+
+        switch (this.type) {
+            case CurveType.Exponential:
+                // Slow start, fast finish
+                return (Math.exp(k * x) - 1.0) / (Math.exp(k) - 1.0);
+            case CurveType.Logarithmic:
+                // Fast start, slow finish
+                return Math.log(1.0 + k * x) / Math.log(1.0 + k);
+            case CurveType.SCurve: {
+                // Flat at both ends, steep in the middle
+                const a = Math.pow(x, k);
+                const b = Math.pow(1.0 - x, k);
+                return a / (a + b);
+            }
+            case CurveType.Piecewise:
+                return this.evaluatePiecewise(x);
+            default:
+                return x;
+        }
+    }
+
+    private evaluatePiecewise(x: number): number {
+        const count = this.pointsX.length;
+        if (count === 0) {
+            return x;
+        }
+        if (x <= this.pointsX[0]) {
+            return this.pointsY[0];
+        }
+        if (x >= this.pointsX[count - 1]) {
+            return this.pointsY[count - 1];
+        }
+
+        for (let i = 1; i < count; i++) {
+            if (x <= this.pointsX[i]) {
+                const x0 = this.pointsX[i - 1];
+                const x1 = this.pointsX[i];
+                const t = x1 > x0 ? (x - x0) / (x1 - x0) : 1.0;
+                return this.pointsY[i - 1] + (this.pointsY[i] - this.pointsY[i - 1]) * t;
+            }
+        }
+        return this.pointsY[count - 1];
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * ReverbEffect.ts
+ *
+ * Small Schroeder/Freeverb-style reverb: four damped feedback combs in
+ * parallel followed by two allpass diffusers per channel. The right channel
+ * uses slightly longer delay lines for stereo spread.
+ */
+
+import { AudioEffect } from "./AudioEffect";
+
+// Freeverb tunings (in samples at 44.1kHz)
+const COMB_TUNINGS = [1116, 1188, 1277, 1356];
+const ALLPASS_TUNINGS = [556, 441];
+const STEREO_SPREAD = 23;
+
+class CombFilter {
+    private buffer: Float32Array;
+    private index: number = 0;
+    private filterStore: number = 0;
+
+    constructor(size: number) {
+        this.buffer = new Float32Array(size);
+    }
+
+    public process(input: number, feedback: number, damping: number): number {
+        const output = this.buffer[this.index];
+        this.filterStore = output * (1 - damping) + this.filterStore * damping;
+        this.buffer[this.index] = input + this.filterStore * feedback;
+        this.index = (this.index + 1) % this.buffer.length;
+        return output;
+    }
+
+    public clear(): void {
+        this.buffer.fill(0);
+        this.filterStore = 0;
+    }
+}
+
+class AllpassFilter {
+    private buffer: Float32Array;
+    private index: number = 0;
+
+    constructor(size: number) {
+        this.buffer = new Float32Array(size);
+    }
+
+    public process(input: number): number {
+        const buffered = this.buffer[this.index];
+        const output = buffered - input;
+        this.buffer[this.index] = input + buffered * 0.5;
+        this.index = (this.index + 1) % this.buffer.length;
+        return output;
+    }
+
+    public clear(): void {
+        this.buffer.fill(0);
+    }
+}
+
+export class ReverbEffect extends AudioEffect {
+    private roomSize: number = 0.7;
+    private damping: number = 0.4;
+    private mix: number = 0.25;
+
+    private combsLeft: CombFilter[] = [];
+    private combsRight: CombFilter[] = [];
+    private allpassesLeft: AllpassFilter[] = [];
+    private allpassesRight: AllpassFilter[] = [];
+
+    constructor(type: string, sampleRate: number) {
+        super(type, sampleRate);
+        const scale = sampleRate / 44100;
+        for (let i = 0; i < COMB_TUNINGS.length; i++) {
+            this.combsLeft.push(new CombFilter(Math.round(COMB_TUNINGS[i] * scale)));
+            this.combsRight.push(new CombFilter(Math.round((COMB_TUNINGS[i] + STEREO_SPREAD) * scale)));
+        }
+        for (let i = 0; i < ALLPASS_TUNINGS.length; i++) {
+            this.allpassesLeft.push(new AllpassFilter(Math.round(ALLPASS_TUNINGS[i] * scale)));
+            this.allpassesRight.push(new AllpassFilter(Math.round((ALLPASS_TUNINGS[i] + STEREO_SPREAD) * scale)));
+        }
+
+        this.defineParameter("roomSize", () => this.roomSize, (v) => {
+            this.roomSize = Math.max(0, Math.min(1, v));
+        });
+        this.defineParameter("damping", () => this.damping, (v) => {
+            this.damping = Math.max(0, Math.min(1, v));
+        });
+        this.defineParameter("mix", () => this.mix, (v) => {
+            this.mix = Math.max(0, Math.min(1, v));
+        });
+    }
+
+    public reset(): void {
+        this.combsLeft.concat(this.combsRight).forEach((comb) => comb.clear());
+        this.allpassesLeft.concat(this.allpassesRight).forEach((allpass) => allpass.clear());
+    }
+
+    public process(left: Float32Array, right: Float32Array, count: number): void {
+        // Map room size onto the usable comb feedback range
+        const feedback = 0.7 + this.roomSize * 0.28;
+        const damping = this.damping * 0.4;
+        const dry = 1.0 - this.mix;
+        const wet = this.mix;
+
+        for (let i = 0; i < count; i++) {
+            const input = (left[i] + right[i]) * 0.015;
+
+            let outL = 0;
+            let outR = 0;
+            for (let c = 0; c < this.combsLeft.length; c++) {
+                outL += this.combsLeft[c].process(input, feedback, damping);
+                outR += this.combsRight[c].process(input, feedback, damping);
+            }
+            for (let a = 0; a < this.allpassesLeft.length; a++) {
+                outL = this.allpassesLeft[a].process(outL);
+                outR = this.allpassesRight[a].process(outR);
+            }
+
+            left[i] = left[i] * dry + outL * wet;
+            right[i] = right[i] * dry + outR * wet;
+        }
+    }
+}
@@ -0,0 +1,257 @@
+/**
+ * ScratchController.ts
+ *
+ * DJ scratch mode: while the record is "grabbed", the target's displacement
+ * along one axis moves a deck's playhead directly. Moving forwards or
+ * backwards scrubs the audio forwards or backwards at the speed of the hand,
+ * holding still holds the playhead, and releasing hands the deck back to
+ * normal playback at the rate it had before the grab.
+ *
+ * The playhead is driven through the deck rate rather than by seeking, so
+ * the scrub is heard as a continuous (ramped) speed change instead of jumps.
+ */
+
+import { AccelerationCalculator } from "./AccelerationCalculator";
+import { AudioController } from "./AudioController";
+import { Deck } from "./Deck";
+import { Event, PublicApi } from "./Event";
+import { LogLevel, Logger, setCategoryLevel } from "./Logger";
+
+const log = new Logger("ScratchController");
+
+export enum ScratchAxis {
+    X = 0,
+    Y = 1,
+    Z = 2
+}
+
+export enum GrabMode {
+    // grab() and release() are called from script, e.g. on a pinch
+    Manual = 0,
+    // Grab when the hand moves quickly along the axis, release once it rests
+    Motion = 1
+}
+
+export type ScratchEvent = {
+    deckIndex: number;
+    // Playhead in seconds when the record was grabbed or released
+    position: number;
+};
+
+@component
+export class ScratchController extends BaseScriptComponent {
+    @input
+    @hint("AccelerationCalculator component whose target moves the playhead")
+    accelerationCalculator: AccelerationCalculator;
+
+    @input
+    @hint("AudioController component with the deck to scratch")
+    audioController: AudioController;
+
+    @input
+    @hint("Deck to scratch (0 = A, 1 = B)")
+    deckIndex: number = 0;
+
+    @input
+    @hint("Axis the hand moves along to scrub")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("X (left/right)", ScratchAxis.X),
+        new ComboBoxItem("Y (up/down)", ScratchAxis.Y),
+        new ComboBoxItem("Z (forward/back)", ScratchAxis.Z)
+    ]))
+    axis: number = ScratchAxis.X;
+
+    @input
+    @hint("Scrub backwards when moving in the positive axis direction")
+    invert: boolean = false;
+
+    @input
+    @hint("Seconds of audio the playhead moves per unit (cm) of hand movement")
+    @widget(new SliderWidget(0.001, 0.1, 0.001))
+    secondsPerUnit: number = 0.02;
+
+    @input
+    @hint("How the record is grabbed: from script, or automatically by fast motion along the axis")
+    @widget(new ComboBoxWidget([
+        new ComboBoxItem("Manual (grab/release)", GrabMode.Manual),
+        new ComboBoxItem("Motion", GrabMode.Motion)
+    ]))
+    grabMode: number = GrabMode.Manual;
+
+    @input
+    @hint("Motion mode: speed along the axis (units/sec) that grabs the record")
+    grabVelocity: number = 40.0;
+
+    @input
+    @hint("Motion mode: speed along the axis below which the hand counts as resting")
+    releaseVelocity: number = 5.0;
+
+    @input
+    @hint("Motion mode: seconds the hand must rest before the record is released")
+    releaseDelay: number = 0.4;
+
+    @input
+    @hint("Fastest scrub as a multiple of normal speed")
+    @widget(new SliderWidget(1.0, 16.0, 0.5))
+    maxScratchRate: number = 8.0;
+
+    @input
+    @hint("Seconds to return to the original rate after a release")
+    @widget(new SliderWidget(0.0, 1.0, 0.01))
+    releaseTime: number = 0.15;
+
+    @input
+    @hint("Log debug output for this component (raises its log level to Debug)")
+    enableDebugLogging: boolean = false;
+
+    private onGrabEvent = new Event<ScratchEvent>();
+    private onReleaseEvent = new Event<ScratchEvent>();
+
+    public readonly onGrab: PublicApi<ScratchEvent> = this.onGrabEvent.publicApi();
+    public readonly onRelease: PublicApi<ScratchEvent> = this.onReleaseEvent.publicApi();
+
+    private grabbed: boolean = false;
+    // Deck rate before the grab, restored on release
+    private savedRate: number = 1.0;
+    // Hand position along the axis at the previous update
+    private previousHand: number = 0;
+    // Time the hand has been resting, for the motion grab mode
+    private restTime: number = 0;
+
+    public get isGrabbed(): boolean {
+        return this.grabbed;
+    }
+
+    onAwake(): void {
+        if (this.enableDebugLogging) {
+            setCategoryLevel(log.category, LogLevel.Debug);
+        }
+
+        if (!this.accelerationCalculator) {
+            log.error("No AccelerationCalculator specified!");
+            return;
+        }
+        if (!this.audioController) {
+            log.error("No AudioController specified!");
+            return;
+        }
+
+        this.createEvent("UpdateEvent").bind(() => {
+            this.updateScratch();
+        });
+
+        log.info("Initialized");
+    }
+
+    /**
+     * Put the hand on the record: the playhead stops and follows the hand
+     */
+    public grab(): void {
+        const deck = this.getDeck();
+        if (this.grabbed || !deck) {
+            return;
+        }
+        if (!deck.isLoaded) {
+            log.warn("Deck " + deck.name + " has no track to scratch");
+            return;
+        }
+
+        this.grabbed = true;
+        this.savedRate = deck.rate;
+        this.previousHand = this.handPosition();
+        this.restTime = 0;
+        deck.rate = 0.0;
+
+        log.debug("Grab on deck " + deck.name);
+        this.onGrabEvent.invoke(this.scratchEvent(deck));
+    }
+
+    /**
+     * Let go of the record and return to the rate it had before the grab
+     */
+    public release(): void {
+        const deck = this.getDeck();
+        if (!this.grabbed || !deck) {
+            return;
+        }
+
+        this.grabbed = false;
+        deck.rampRate(this.savedRate, this.releaseTime * this.audioController.sampleRate);
+
+        log.debug("Release on deck " + deck.name);
+        this.onReleaseEvent.invoke(this.scratchEvent(deck));
+    }
+
+    private updateScratch(): void {
+        if (this.grabMode === GrabMode.Motion) {
+            this.updateMotionGrab();
+        }
+        if (!this.grabbed) {
+            return;
+        }
+
+        const deck = this.getDeck();
+        const deltaTime = getDeltaTime();
+        if (!deck || deltaTime <= 0) {
+            return;
+        }
+
+        // Audio frames the hand moved over since the last update
+        const hand = this.handPosition();
+        const frames = (hand - this.previousHand) * this.secondsPerUnit * this.audioController.sampleRate;
+        this.previousHand = hand;
+
+        // Cover the same distance by the next update, independent of the
+        // master rate and tempo the deck rate is multiplied with
+        const speed = frames / (deltaTime * this.audioController.sampleRate);
+        const masterSpeed = this.audioController.rate * this.audioController.tempo;
+        const rate = masterSpeed !== 0 ? speed / masterSpeed : 0;
+        deck.rate = Math.max(-this.maxScratchRate, Math.min(this.maxScratchRate, rate));
+
+        log.trace(() => "Scratch rate: " + deck.rate.toFixed(3));
+    }
+
+    private updateMotionGrab(): void {
+        const speed = Math.abs(this.handVelocity());
+        if (!this.grabbed) {
+            if (speed > this.grabVelocity) {
+                this.grab();
+            }
+            return;
+        }
+
+        this.restTime = speed < this.releaseVelocity ? this.restTime + getDeltaTime() : 0;
+        if (this.restTime >= this.releaseDelay) {
+            this.release();
+        }
+    }
+
+    // Target position along the scratch axis
+    private handPosition(): number {
+        return this.alongAxis(this.accelerationCalculator.position);
+    }
+
+    private handVelocity(): number {
+        return this.alongAxis(this.accelerationCalculator.velocity);
+    }
+
+    private alongAxis(value: vec3): number {
+        const sign = this.invert ? -1 : 1;
+        switch (this.axis) {
+            case ScratchAxis.Y:
+                return value.y * sign;
+            case ScratchAxis.Z:
+                return value.z * sign;
+            default:
+                return value.x * sign;
+        }
+    }
+
+    private getDeck(): Deck | null {
+        return this.audioController ? this.audioController.getDeck(this.deckIndex) : null;
+    }
+
+    private scratchEvent(deck: Deck): ScratchEvent {
+        return { deckIndex: this.deckIndex, position: this.audioController.getPositionSeconds(this.deckIndex) };
+    }
+}
@@ -0,0 +1,176 @@
+/**
+ * TimeStretcher.ts
+ *
+ * WSOLA (waveform-similarity overlap-add) engine that lets a deck change tempo
+ * and pitch independently. Hann-windowed grains are read at the pitch ratio and
+ * placed every half grain; each new grain starts near the deck's nominal
+ * playhead, shifted to the offset whose waveform best continues the previous
+ * grain so the overlap doesn't phase-cancel.
+ */
+
+import { FloatArrayWrapper } from "./FloatArrayWrapper";
+import { InterpolationMode, readInterpolated } from "./Resampler";
+
+// Grain length in output samples (~46ms at 44.1kHz) and hop between grains
+const GRAIN_SIZE = 2048;
+const HOP_SIZE = GRAIN_SIZE / 2;
+
+// How far (in source samples) a grain may move from the nominal playhead
+const SEARCH_RANGE = 512;
+const SEARCH_STEP = 4;
+
+// Every Nth sample of the overlap is compared during the search
+const CORRELATION_STEP = 8;
+
+export class TimeStretcher {
+    private window: Float32Array;
+
+    // Source start positions of the fading-out and fading-in grains
+    private previousGrainStart: number = 0;
+    private currentGrainStart: number = 0;
+    private hasPreviousGrain: boolean = false;
+    private hasCurrentGrain: boolean = false;
+
+    // Pitch ratio each grain was started with
+    private previousGrainPitch: number = 1.0;
+    private currentGrainPitch: number = 1.0;
+
+    // Output samples produced since the current grain started
+    private grainOffset: number = 0;
+
+    constructor() {
+        this.window = new Float32Array(GRAIN_SIZE);
+        for (let i = 0; i < GRAIN_SIZE; i++) {
+            this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / GRAIN_SIZE);
+        }
+    }
+
+    /**
+     * Source position the fading-in grain reads next, or NaN before the first grain
+     */
+    public get readPosition(): number {
+        return this.hasCurrentGrain ? this.currentGrainStart + this.grainOffset * this.currentGrainPitch : NaN;
+    }
+
+    /**
+     * Drop grain state, e.g. after a seek or when stretching starts.
+     * The next grain fades in from silence at the playhead.
+     */
+    public reset(): void {
+        this.hasPreviousGrain = false;
+        this.hasCurrentGrain = false;
+        this.grainOffset = 0;
+    }
+
+    /**
+     * Drop grain state and continue from a new position at full level, e.g.
+     * after a jump. The first grain is paired with a fading-out grain that
+     * reads the same audio, so the output doesn't fade in from silence.
+     * @param nominalPosition Where the playhead is now
+     * @param pitch Pitch ratio (1.0 = original pitch)
+     */
+    public startAt(nominalPosition: number, pitch: number): void {
+        this.previousGrainStart = nominalPosition - HOP_SIZE * pitch;
+        this.previousGrainPitch = pitch;
+        this.hasPreviousGrain = true;
+        this.currentGrainStart = nominalPosition;
+        this.currentGrainPitch = pitch;
+        this.hasCurrentGrain = true;
+        this.grainOffset = 0;
+    }
+
+    /**
+     * Produce the next stereo output frame
+     * @param data Decoded samples of the track
+     * @param nominalPosition Where the playhead would be at this tempo
+     * @param pitch Pitch ratio (1.0 = original pitch)
+     * @param interpolation How to read between source frames
+     * @param frame Receives the left and right samples
+     */
+    public nextFrame(data: FloatArrayWrapper, nominalPosition: number, pitch: number, interpolation: InterpolationMode, frame: Float32Array): void {
+        if (!this.hasCurrentGrain || this.grainOffset >= HOP_SIZE) {
+            this.startGrain(data, nominalPosition, pitch);
+        }
+
+        const offset = this.grainOffset;
+        const currentWeight = this.window[offset];
+        const currentPosition = this.currentGrainStart + offset * this.currentGrainPitch;
+        const currentStep = Math.abs(this.currentGrainPitch);
+        let left = currentWeight * readInterpolated(data, currentPosition, interpolation, 0, currentStep);
+        let right = currentWeight * readInterpolated(data, currentPosition, interpolation, 1, currentStep);
+
+        if (this.hasPreviousGrain) {
+            const previousOffset = offset + HOP_SIZE;
+            const previousWeight = this.window[previousOffset];
+            const previousPosition = this.previousGrainStart + previousOffset * this.previousGrainPitch;
+            const previousStep = Math.abs(this.previousGrainPitch);
+            left += previousWeight * readInterpolated(data, previousPosition, interpolation, 0, previousStep);
+            right += previousWeight * readInterpolated(data, previousPosition, interpolation, 1, previousStep);
+        }
+
+        frame[0] = left;
+        frame[1] = right;
+        this.grainOffset++;
+    }
+
+    private startGrain(data: FloatArrayWrapper, nominalPosition: number, pitch: number): void {
+        if (this.hasCurrentGrain) {
+            // Current grain moves into its fade-out half
+            this.previousGrainStart = this.currentGrainStart;
+            this.previousGrainPitch = this.currentGrainPitch;
+            this.hasPreviousGrain = true;
+
+            // Where the outgoing grain's waveform would naturally carry on
+            const continuation = this.currentGrainStart + HOP_SIZE * this.currentGrainPitch;
+            this.currentGrainStart = this.findBestStart(data, continuation, nominalPosition, pitch);
+        } else {
+            this.currentGrainStart = nominalPosition;
+        }
+
+        this.currentGrainPitch = pitch;
+        this.hasCurrentGrain = true;
+        this.grainOffset = 0;
+    }
+
+    private findBestStart(data: FloatArrayWrapper, continuation: number, nominalPosition: number, pitch: number): number {
+        let bestOffset = 0;
+        let bestScore = -Infinity;
+
+        // Coarse search over the whole range, then refine around the winner
+        for (let delta = -SEARCH_RANGE; delta <= SEARCH_RANGE; delta += SEARCH_STEP) {
+            const score = this.similarity(data, continuation, nominalPosition + delta, pitch);
+            if (score > bestScore) {
+                bestScore = score;
+                bestOffset = delta;
+            }
+        }
+
+        const coarseOffset = bestOffset;
+        for (let delta = coarseOffset - SEARCH_STEP + 1; delta < coarseOffset + SEARCH_STEP; delta++) {
+            if (delta === coarseOffset) {
+                continue;
+            }
+            const score = this.similarity(data, continuation, nominalPosition + delta, pitch);
+            if (score > bestScore) {
+                bestScore = score;
+                bestOffset = delta;
+            }
+        }
+
+        return nominalPosition + bestOffset;
+    }
+
+    // Normalised cross-correlation (first channel) between the continuation and a candidate grain start
+    private similarity(data: FloatArrayWrapper, reference: number, candidate: number, pitch: number): number {
+        let correlation = 0;
+        let energy = 1e-9;
+        for (let i = 0; i < HOP_SIZE; i += CORRELATION_STEP) {
+            const step = i * pitch;
+            const a = data.getSample(Math.round(reference + step), 0);
+            const b = data.getSample(Math.round(candidate + step), 0);
+            correlation += a * b;
+            energy += b * b;
+        }
+        return correlation / Math.sqrt(energy);
+    }
+}
@@ -0,0 +1,216 @@
+/**
+ * TrackLoader.ts
+ *
+ * Decodes one input track into a FloatArrayWrapper a few blocks at a time, so
+ * loading can be spread across frames instead of stalling onAwake.
+ *
+ * Its memory can be bounded, while decoding as well as afterwards: chunks far
+ * from the playheads are evicted and decoded again when a playhead comes
+ * back, by seeking the track provider. Providers that can't seek keep the
+ * whole track in memory.
+ *
+ * Tracks are decoded at their native sample rate, which is recorded so the
+ * decks can convert to the output rate while playing.
+ */
+
+import { FloatArrayWrapper } from "./FloatArrayWrapper";
+
+export enum LoadState {
+    Pending = 0,
+    Loading = 1,
+    Ready = 2,
+    Failed = 3
+}
+
+// Frames requested from the provider per getAudioBuffer call
+const DECODE_BLOCK_FRAMES = 4096;
+// Most channels a track is expected to have (7.1). Providers don't report
+// their channel count before the first block, so the buffer has room for this many.
+const MAX_CHANNELS = 8;
+
+export class TrackLoader {
+    public readonly trackIndex: number;
+    // Native sample rate of the decoded frames
+    public readonly sampleRate: number;
+
+    private control: AudioTrackProvider;
+    private data: FloatArrayWrapper | null = null;
+    private loadState: LoadState = LoadState.Pending;
+    private buffer: Float32Array;
+    // Expected length from the provider's duration, 0 if unknown
+    private expectedFrames: number = 0;
+    // Frame the provider will decode next
+    private streamFrame: number = 0;
+
+    /**
+     * @param control Track provider of the input track
+     * @param trackIndex Index of the track in AudioController.inputTrack
+     * @param defaultSampleRate Sample rate assumed when the provider doesn't report one
+     */
+    constructor(control: AudioTrackProvider, trackIndex: number, defaultSampleRate: number) {
+        this.control = control;
+        this.trackIndex = trackIndex;
+        this.sampleRate = control.sampleRate > 0 ? control.sampleRate : defaultSampleRate;
+        // Room for a block of interleaved frames with the most channels expected
+        this.buffer = new Float32Array(Math.max(control.maxFrameSize || 0, DECODE_BLOCK_FRAMES * MAX_CHANNELS));
+        const duration = (control as FileAudioTrackProvider).duration;
+        if (typeof duration === "number" && duration > 0) {
+            this.expectedFrames = Math.round(duration * this.sampleRate);
+        }
+    }
+
+    public get state(): LoadState {
+        return this.loadState;
+    }
+
+    public get isReady(): boolean {
+        return this.loadState === LoadState.Ready;
+    }
+
+    /**
+     * Decoded samples; null until the first block has been decoded
+     */
+    public get audioData(): FloatArrayWrapper | null {
+        return this.data;
+    }
+
+    /**
+     * Fraction decoded, 0..1. Stays at 0 until ready when the provider
+     * doesn't report a duration.
+     */
+    public get progress(): number {
+        if (this.loadState === LoadState.Ready) {
+            return 1.0;
+        }
+        if (!this.data || this.expectedFrames <= 0) {
+            return 0.0;
+        }
+        return Math.min(0.99, this.data.getFrameCount() / this.expectedFrames);
+    }
+
+    /**
+     * Whether evicted chunks can be decoded again
+     */
+    public get canSeek(): boolean {
+        return isSeekable(this.control);
+    }
+
+    /**
+     * Frame the provider will decode next; the newest decoded audio ends here
+     */
+    public get decodeFrame(): number {
+        return this.streamFrame;
+    }
+
+    /**
+     * Decode up to maxFrames more frames
+     * @returns true when the track has been fully decoded
+     */
+    public step(maxFrames: number): boolean {
+        if (this.loadState === LoadState.Ready || this.loadState === LoadState.Failed) {
+            return true;
+        }
+        this.loadState = LoadState.Loading;
+
+        let decoded = 0;
+        while (decoded < maxFrames) {
+            const shape = this.readBlock();
+            if (shape.x === 0) {
+                if (!this.data) {
+                    this.loadState = LoadState.Failed;
+                    return true;
+                }
+                this.loadState = LoadState.Ready;
+                return true;
+            }
+
+            if (!this.data) {
+                this.data = new FloatArrayWrapper(Math.max(1, shape.y));
+            }
+            this.data.push(this.buffer, shape.x * this.data.getChannelCount());
+            this.streamFrame += shape.x;
+            decoded += shape.x;
+        }
+        return false;
+    }
+
+    /**
+     * Decode evicted chunks around a playhead back into memory
+     * @param frame Playhead in frames
+     * @param behindFrames Frames to keep resident behind the playhead
+     * @param aheadFrames Frames to keep resident ahead of the playhead
+     * @param maxFrames Decoding budget for this call
+     */
+    public refill(frame: number, behindFrames: number, aheadFrames: number, maxFrames: number): void {
+        const data = this.data;
+        const control = this.control;
+        if (!data || !this.isReady || !isSeekable(control)) {
+            return;
+        }
+
+        // Decks loop, so the wanted range wraps around the end of the track
+        const chunkCount = data.getChunkCount();
+        const framesPerChunk = data.getChunkSize() / data.getChannelCount();
+        const aheadChunks = Math.min(chunkCount, Math.ceil(aheadFrames / framesPerChunk) + 1);
+        const behindChunks = Math.min(chunkCount, Math.ceil(behindFrames / framesPerChunk) + 1);
+        const center = data.chunkOfFrame(frame);
+        const wrap = (chunkIndex: number): number => ((chunkIndex % chunkCount) + chunkCount) % chunkCount;
+
+        // Nearest chunks first: ahead of the playhead, then behind it
+        let decoded = 0;
+        const maxDistance = Math.max(aheadChunks, behindChunks);
+        for (let distance = 0; distance <= maxDistance && decoded < maxFrames; distance++) {
+            const ahead = wrap(center + distance);
+            const behind = wrap(center - distance);
+            if (distance <= aheadChunks && !data.isChunkResident(ahead)) {
+                decoded += this.decodeChunk(control, ahead);
+            }
+            if (distance > 0 && distance <= behindChunks && !data.isChunkResident(behind)) {
+                decoded += this.decodeChunk(control, behind);
+            }
+        }
+    }
+
+    // Seek the provider to a chunk and decode it (and whatever else the block covers)
+    private decodeChunk(control: FileAudioTrackProvider, chunkIndex: number): number {
+        const data = this.data as FloatArrayWrapper;
+        const channels = data.getChannelCount();
+        const chunkSize = data.getChunkSize();
+        const startElement = chunkIndex * chunkSize;
+        const startFrame = Math.floor(startElement / channels);
+        const endElement = Math.min(data.getSize(), startElement + chunkSize);
+
+        if (startFrame !== this.streamFrame) {
+            control.position = startFrame / this.sampleRate;
+            this.streamFrame = startFrame;
+        }
+
+        let element = startFrame * channels;
+        let decoded = 0;
+        while (element < endElement) {
+            const shape = this.readBlock();
+            if (shape.x === 0) {
+                break;
+            }
+            const count = Math.min(shape.x * channels, data.getSize() - element);
+            data.write(element, this.buffer, count);
+            element += count;
+            this.streamFrame += shape.x;
+            decoded += shape.x;
+        }
+        return decoded;
+    }
+
+    private readBlock(): vec3 {
+        // The channel count is known once the first block has been decoded
+        const channels = this.data ? this.data.getChannelCount() : MAX_CHANNELS;
+        const frames = Math.min(DECODE_BLOCK_FRAMES, Math.floor(this.buffer.length / channels));
+        return this.control.getAudioBuffer(this.buffer, frames);
+    }
+}
+
+// File providers have a read position that can be set; providers that
+// generate audio don't, so chunks evicted from them can't be decoded again
+function isSeekable(control: AudioTrackProvider): control is FileAudioTrackProvider {
+    return typeof (control as FileAudioTrackProvider).position === "number";
+}
@@ -0,0 +1,118 @@
+/**
+ * LensGlobals.d.ts
+ *
+ * Types of the Lens Studio globals as LensStandIns.ts provides them, so the
+ * offline tools and the project scripts they load can be type-checked
+ * outside Lens Studio (npm run check). A project script that uses a global
+ * without a stand-in fails the check instead of failing mid-render.
+ *
+ * Assets and components the scripts only hold references to are declared as
+ * far as the scripts use them; the renderer passes stand-ins for those.
+ */
+
+import { Quat, StandInEvent, StandInScriptComponent, Vec3, Widget } from "./LensStandIns";
+
+type Decorator = (...args: unknown[]) => undefined;
+type DecoratorFactory = (...args: unknown[]) => Decorator;
+
+declare global {
+    type vec3 = Vec3;
+    var vec3: typeof Vec3;
+    type quat = Quat;
+    var quat: typeof Quat;
+
+    type SceneEvent = StandInEvent;
+    type BaseScriptComponent = StandInScriptComponent;
+    var BaseScriptComponent: typeof StandInScriptComponent;
+
+    var print: (message: unknown) => void;
+    var getTime: () => number;
+    var getDeltaTime: () => number;
+    var global: typeof globalThis;
+
+    var component: Decorator;
+    var typedef: Decorator;
+    var input: Decorator;
+    var allowUndefined: Decorator;
+    var hint: DecoratorFactory;
+    var label: DecoratorFactory;
+    var showIf: DecoratorFactory;
+    var widget: DecoratorFactory;
+    var ui: {
+        group_start: DecoratorFactory;
+        group_end: Decorator;
+        separator: Decorator;
+        label: DecoratorFactory;
+    };
+
+    type SliderWidget = Widget;
+    var SliderWidget: typeof Widget;
+    type ComboBoxWidget = Widget;
+    var ComboBoxWidget: typeof Widget;
+    type ComboBoxItem = Widget;
+    var ComboBoxItem: typeof Widget;
+
+    interface Asset {
+        name: string;
+    }
+
+    /**
+     * Base of the audio asset controls; scripts cast to the provider they expect
+     */
+    interface Provider {}
+
+    /**
+     * Decodes an audio asset, or generates audio, a block at a time
+     */
+    interface AudioTrackProvider extends Provider {
+        sampleRate: number;
+        maxFrameSize: number;
+        loops: number;
+        /**
+         * Read up to readSize frames of interleaved samples
+         * @returns Shape of what was read: (frames, channels, 1)
+         */
+        getAudioBuffer(audioBuffer: Float32Array, readSize: number): vec3;
+    }
+
+    /**
+     * Provider of an audio file, which knows its length and can seek
+     */
+    interface FileAudioTrackProvider extends AudioTrackProvider {
+        // Length in seconds
+        duration: number;
+        // Read position in seconds
+        position: number;
+    }
+
+    /**
+     * Provider of an output track that audio is written to
+     */
+    interface AudioOutputProvider extends Provider {
+        sampleRate: number;
+        maxFrameSize: number;
+        loops: number;
+        getPreferredFrameSize(): number;
+        enqueueAudioFrame(audioFrame: Float32Array, shape: vec3): void;
+    }
+
+    interface AudioTrackAsset extends Asset {
+        control: Provider;
+    }
+
+    interface AudioComponent {
+        play(loops: number): void;
+        stop(fade: boolean): void;
+    }
+
+    interface Transform {
+        getWorldPosition(): vec3;
+        getWorldRotation(): quat;
+    }
+
+    interface SceneObject {
+        name: string;
+        enabled: boolean;
+        getTransform(): Transform;
+    }
+}
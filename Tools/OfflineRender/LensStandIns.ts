@@ -0,0 +1,234 @@
+/**
+ * LensStandIns.ts
+ *
+ * Minimal Node stand-ins for the Lens Studio globals the project scripts use
+ * (vec3, quat, print, getTime, the script decorators and BaseScriptComponent),
+ * so AudioController, AccelerationCalculator and AccelerationToRate can run
+ * headless. Import this module before any project script.
+ *
+ * Only what the scripts in Assets/Project/Scripts need is implemented.
+ * LensGlobals.d.ts declares the globals with these types for the type-check.
+ */
+
+/**
+ * Simulated time, advanced by the offline renderer instead of the frame loop
+ */
+export const clock = {
+    time: 0,
+    deltaTime: 1 / 60
+};
+
+// Set to true to forward print() calls to the console
+export const printSettings = {
+    enabled: false
+};
+
+export class Vec3 {
+    public x: number;
+    public y: number;
+    public z: number;
+
+    constructor(x: number = 0, y: number = 0, z: number = 0) {
+        this.x = x;
+        this.y = y;
+        this.z = z;
+    }
+
+    get length(): number {
+        return Math.sqrt(this.x * this.x + this.y * this.y + this.z * this.z);
+    }
+
+    get lengthSquared(): number {
+        return this.x * this.x + this.y * this.y + this.z * this.z;
+    }
+
+    add(v: Vec3): Vec3 {
+        return new Vec3(this.x + v.x, this.y + v.y, this.z + v.z);
+    }
+
+    sub(v: Vec3): Vec3 {
+        return new Vec3(this.x - v.x, this.y - v.y, this.z - v.z);
+    }
+
+    mult(v: Vec3): Vec3 {
+        return new Vec3(this.x * v.x, this.y * v.y, this.z * v.z);
+    }
+
+    uniformScale(s: number): Vec3 {
+        return new Vec3(this.x * s, this.y * s, this.z * s);
+    }
+
+    dot(v: Vec3): number {
+        return this.x * v.x + this.y * v.y + this.z * v.z;
+    }
+
+    cross(v: Vec3): Vec3 {
+        return new Vec3(
+            this.y * v.z - this.z * v.y,
+            this.z * v.x - this.x * v.z,
+            this.x * v.y - this.y * v.x
+        );
+    }
+
+    normalize(): Vec3 {
+        const length = this.length;
+        return length > 0 ? this.uniformScale(1 / length) : new Vec3(0, 0, 0);
+    }
+
+    distance(v: Vec3): number {
+        return this.sub(v).length;
+    }
+
+    equal(v: Vec3): boolean {
+        return this.x === v.x && this.y === v.y && this.z === v.z;
+    }
+
+    toString(): string {
+        return "{x: " + this.x + ", y: " + this.y + ", z: " + this.z + "}";
+    }
+
+    static zero(): Vec3 { return new Vec3(0, 0, 0); }
+    static one(): Vec3 { return new Vec3(1, 1, 1); }
+    static up(): Vec3 { return new Vec3(0, 1, 0); }
+    static down(): Vec3 { return new Vec3(0, -1, 0); }
+    static right(): Vec3 { return new Vec3(1, 0, 0); }
+    static left(): Vec3 { return new Vec3(-1, 0, 0); }
+    static forward(): Vec3 { return new Vec3(0, 0, -1); }
+    static back(): Vec3 { return new Vec3(0, 0, 1); }
+}
+
+export class Quat {
+    public w: number;
+    public x: number;
+    public y: number;
+    public z: number;
+
+    // Same argument order as Lens Studio: (w, x, y, z)
+    constructor(w: number = 1, x: number = 0, y: number = 0, z: number = 0) {
+        this.w = w;
+        this.x = x;
+        this.y = y;
+        this.z = z;
+    }
+
+    multiply(q: Quat): Quat {
+        return new Quat(
+            this.w * q.w - this.x * q.x - this.y * q.y - this.z * q.z,
+            this.w * q.x + this.x * q.w + this.y * q.z - this.z * q.y,
+            this.w * q.y - this.x * q.z + this.y * q.w + this.z * q.x,
+            this.w * q.z + this.x * q.y - this.y * q.x + this.z * q.w
+        );
+    }
+
+    invert(): Quat {
+        const lengthSquared = this.w * this.w + this.x * this.x + this.y * this.y + this.z * this.z;
+        const s = lengthSquared > 0 ? 1 / lengthSquared : 0;
+        return new Quat(this.w * s, -this.x * s, -this.y * s, -this.z * s);
+    }
+
+    multiplyVec3(v: Vec3): Vec3 {
+        const p = this.multiply(new Quat(0, v.x, v.y, v.z)).multiply(this.invert());
+        return new Vec3(p.x, p.y, p.z);
+    }
+
+    toString(): string {
+        return "{x: " + this.x + ", y: " + this.y + ", z: " + this.z + ", w: " + this.w + "}";
+    }
+
+    static quatIdentity(): Quat {
+        return new Quat(1, 0, 0, 0);
+    }
+
+    // Angle in radians, like Lens Studio
+    static angleAxis(angle: number, axis: Vec3): Quat {
+        const n = axis.normalize();
+        const s = Math.sin(angle / 2);
+        return new Quat(Math.cos(angle / 2), n.x * s, n.y * s, n.z * s);
+    }
+}
+
+export type EventCallback = (eventData: object) => void;
+
+/**
+ * Event returned by createEvent
+ */
+export type StandInEvent = {
+    enabled: boolean;
+    bind(callback: EventCallback): void;
+};
+
+/**
+ * Base class standing in for Lens Studio's BaseScriptComponent. Events bound
+ * with createEvent are collected so the renderer can fire them each frame.
+ */
+export class StandInScriptComponent {
+    public enabled: boolean = true;
+    public boundEvents: { [type: string]: EventCallback[] } = {};
+
+    createEvent(type: string): StandInEvent {
+        const handlers = this.boundEvents[type] || (this.boundEvents[type] = []);
+        return {
+            enabled: true,
+            bind: (callback: EventCallback) => {
+                handlers.push(callback);
+            }
+        };
+    }
+
+    removeEvent(_event: StandInEvent): void {}
+
+    /**
+     * Run every handler bound to an event type, e.g. "UpdateEvent"
+     */
+    fireEvent(type: string): void {
+        const handlers = this.boundEvents[type];
+        if (!handlers || !this.enabled) {
+            return;
+        }
+        for (let i = 0; i < handlers.length; i++) {
+            handlers[i]({});
+        }
+    }
+}
+
+export class Widget {
+    constructor(..._args: unknown[]) {}
+
+    addItem(_label: string, _value: unknown): Widget {
+        return this;
+    }
+}
+
+// Decorators only carry Inspector metadata, so they do nothing here.
+// They accept both legacy (target, key) and standard (value, context) calls.
+const noopDecorator = (..._args: unknown[]): undefined => undefined;
+const noopDecoratorFactory = (..._args: unknown[]): typeof noopDecorator => noopDecorator;
+
+globalThis.vec3 = Vec3;
+globalThis.quat = Quat;
+globalThis.print = (message: unknown) => {
+    if (printSettings.enabled) {
+        console.log(String(message));
+    }
+};
+globalThis.getTime = () => clock.time;
+globalThis.getDeltaTime = () => clock.deltaTime;
+globalThis.BaseScriptComponent = StandInScriptComponent;
+globalThis.component = noopDecorator;
+globalThis.typedef = noopDecorator;
+globalThis.input = noopDecorator;
+globalThis.allowUndefined = noopDecorator;
+globalThis.hint = noopDecoratorFactory;
+globalThis.label = noopDecoratorFactory;
+globalThis.showIf = noopDecoratorFactory;
+globalThis.widget = noopDecoratorFactory;
+globalThis.ui = {
+    group_start: noopDecoratorFactory,
+    group_end: noopDecorator,
+    separator: noopDecorator,
+    label: noopDecoratorFactory
+};
+globalThis.SliderWidget = Widget;
+globalThis.ComboBoxWidget = Widget;
+globalThis.ComboBoxItem = Widget;
+globalThis.global = globalThis;
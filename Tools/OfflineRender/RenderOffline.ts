@@ -0,0 +1,312 @@
+/**
+ * RenderOffline.ts
+ *
+ * Headless render of AudioController driven by AccelerationToRate. A recorded
+ * motion trace (see MotionRecorder) or a scripted motion is replayed through
+ * AccelerationCalculator frame by frame, faster than real time, and the audio
+ * the controller enqueues is written to a WAV file.
+ *
+ * Usage (from Tools/OfflineRender, after npm install):
+ *   npm run render -- --track song.wav --trace trace.json --out render.wav
+ *
+ * Options:
+ *   --track <wav>          Input track, repeat for more tracks (required)
+ *   --trace <json>         Motion trace saved by MotionRecorder
+ *   --motion <name>        Scripted motion when no trace is given: still, swing, bursts (default swing)
+ *   --amplitude <cm>       Scripted motion amplitude (default 30)
+ *   --frequency <hz>       Scripted motion frequency (default 1)
+ *   --duration <seconds>   Render length (default: trace length, or 10)
+ *   --fps <rate>           Simulated frame rate (default 60)
+ *   --sample-rate <hz>     Output sample rate (default: first track's rate)
+ *   --format <16|float>    Output sample format (default 16)
+ *   --config <json>        Input overrides: { "audioController": {...}, "accelerationCalculator": {...}, "accelerationToRate": {...} }
+ *   --out <wav>            Output file (default render.wav)
+ *   --verbose              Show print() output from the scripts
+ */
+
+// The stand-ins must be installed before any project script is loaded
+import { clock, printSettings, StandInScriptComponent } from "./LensStandIns";
+import { readWav, writeWav, WavData, WavFormat } from "./WavFile";
+import { AudioController } from "../../Assets/Project/Scripts/AudioController";
+import { AccelerationCalculator } from "../../Assets/Project/Scripts/AccelerationCalculator";
+import { AccelerationToRate } from "../../Assets/Project/Scripts/AccelerationToRate";
+import { MotionTrace } from "../../Assets/Project/Scripts/MotionTrace";
+import * as fs from "fs";
+import * as path from "path";
+
+// Largest frame the mock output accepts in one call
+const MAX_FRAME_SIZE = 8192;
+
+// Input overrides by input name, from the --config file
+type Overrides = { [input: string]: unknown };
+
+type Config = {
+    audioController?: Overrides;
+    accelerationCalculator?: Overrides;
+    accelerationToRate?: Overrides;
+};
+
+type Options = {
+    tracks: string[];
+    trace: string;
+    motion: string;
+    amplitude: number;
+    frequency: number;
+    duration: number;
+    fps: number;
+    sampleRate: number;
+    format: WavFormat;
+    config: string;
+    out: string;
+    verbose: boolean;
+};
+
+function parseArguments(args: string[]): Options {
+    const options: Options = {
+        tracks: [],
+        trace: "",
+        motion: "swing",
+        amplitude: 30,
+        frequency: 1,
+        duration: 0,
+        fps: 60,
+        sampleRate: 0,
+        format: WavFormat.Pcm16,
+        config: "",
+        out: "render.wav",
+        verbose: false
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const name = args[i];
+        const value = args[i + 1];
+        switch (name) {
+            case "--track": options.tracks.push(value); i++; break;
+            case "--trace": options.trace = value; i++; break;
+            case "--motion": options.motion = value; i++; break;
+            case "--amplitude": options.amplitude = parseFloat(value); i++; break;
+            case "--frequency": options.frequency = parseFloat(value); i++; break;
+            case "--duration": options.duration = parseFloat(value); i++; break;
+            case "--fps": options.fps = parseFloat(value); i++; break;
+            case "--sample-rate": options.sampleRate = parseInt(value, 10); i++; break;
+            case "--format":
+                if (value !== WavFormat.Pcm16 && value !== WavFormat.Float32) {
+                    throw new Error("--format must be 16 or float");
+                }
+                options.format = value;
+                i++;
+                break;
+            case "--config": options.config = value; i++; break;
+            case "--out": options.out = value; i++; break;
+            case "--verbose": options.verbose = true; break;
+            default:
+                throw new Error("Unknown option " + name);
+        }
+    }
+
+    if (options.tracks.length === 0) {
+        throw new Error("At least one --track is required");
+    }
+    if (!(options.fps > 0)) {
+        throw new Error("--fps must be positive");
+    }
+    return options;
+}
+
+/**
+ * Stand-in for an AudioTrackAsset whose control decodes a WAV in blocks and
+ * can seek, so bounded track caches can be exercised
+ */
+function createTrackAsset(wav: WavData, name: string): AudioTrackAsset {
+    let readFrame = 0;
+    const totalFrames = Math.floor(wav.samples.length / wav.channels);
+    const control: FileAudioTrackProvider = {
+        sampleRate: wav.sampleRate,
+        loops: 1,
+        maxFrameSize: MAX_FRAME_SIZE,
+        duration: totalFrames / wav.sampleRate,
+        get position(): number {
+            return readFrame / wav.sampleRate;
+        },
+        set position(seconds: number) {
+            readFrame = Math.max(0, Math.min(totalFrames, Math.round(seconds * wav.sampleRate)));
+        },
+        getAudioBuffer: (buffer: Float32Array, frameCount: number): vec3 => {
+            const frames = Math.min(frameCount, totalFrames - readFrame, Math.floor(buffer.length / wav.channels));
+            if (frames <= 0) {
+                readFrame = 0;
+                return new vec3(0, wav.channels, 1);
+            }
+            buffer.set(wav.samples.subarray(readFrame * wav.channels, (readFrame + frames) * wav.channels));
+            readFrame += frames;
+            return new vec3(frames, wav.channels, 1);
+        }
+    };
+    return { name: name, control: control };
+}
+
+/**
+ * Stand-in for the output AudioTrackAsset. Collects every enqueued frame and
+ * asks for exactly as many samples as the simulated frame covers.
+ */
+class CapturedOutput {
+    public readonly chunks: Float32Array[] = [];
+    public channels: number = 0;
+    public pendingFrames: number = 0;
+
+    public readonly control: AudioOutputProvider = {
+        sampleRate: 44100,
+        loops: -1,
+        maxFrameSize: MAX_FRAME_SIZE,
+        getPreferredFrameSize: (): number => Math.min(this.pendingFrames, MAX_FRAME_SIZE),
+        enqueueAudioFrame: (frame: Float32Array, shape: vec3): void => {
+            this.channels = shape.y;
+            this.chunks.push(frame.slice(0, shape.x * shape.y));
+            this.pendingFrames -= shape.x;
+        }
+    };
+
+    public toWavData(): WavData {
+        let length = 0;
+        for (let i = 0; i < this.chunks.length; i++) {
+            length += this.chunks[i].length;
+        }
+        const samples = new Float32Array(length);
+        let offset = 0;
+        for (let i = 0; i < this.chunks.length; i++) {
+            samples.set(this.chunks[i], offset);
+            offset += this.chunks[i].length;
+        }
+        return { sampleRate: this.control.sampleRate, channels: Math.max(1, this.channels), samples: samples };
+    }
+}
+
+/**
+ * Build a trace from one of the scripted motions, sampled at the frame rate
+ */
+function scriptedTrace(motion: string, amplitude: number, frequency: number, duration: number, fps: number): MotionTrace {
+    const trace = new MotionTrace();
+    const frameCount = Math.ceil(duration * fps);
+    for (let i = 0; i <= frameCount; i++) {
+        const t = i / fps;
+        let x = 0;
+        switch (motion) {
+            case "still":
+                break;
+            case "swing":
+                x = amplitude * Math.sin(2 * Math.PI * frequency * t);
+                break;
+            case "bursts":
+                // Two seconds of swinging, then two seconds at rest
+                x = (Math.floor(t / 2) % 2 === 0) ? amplitude * Math.sin(2 * Math.PI * frequency * t) : 0;
+                break;
+            default:
+                throw new Error("Unknown motion \"" + motion + "\" (still, swing, bursts)");
+        }
+        trace.add(t, new vec3(x, 0, 0), quat.quatIdentity());
+    }
+    return trace;
+}
+
+// Copy input overrides from the config file onto a component
+function applyOverrides(target: object, overrides: Overrides | undefined, label: string): void {
+    if (!overrides) {
+        return;
+    }
+    const inputs = target as Overrides;
+    for (const key of Object.keys(overrides)) {
+        if (!(key in inputs)) {
+            throw new Error(label + " has no input \"" + key + "\"");
+        }
+        inputs[key] = overrides[key];
+    }
+}
+
+function main(): void {
+    const options = parseArguments(process.argv.slice(2));
+    printSettings.enabled = options.verbose;
+
+    const wavs = options.tracks.map((path) => readWav(path));
+    const sampleRate = options.sampleRate > 0 ? options.sampleRate : wavs[0].sampleRate;
+    const config: Config = options.config ? JSON.parse(fs.readFileSync(options.config, "utf8")) : {};
+
+    let trace: MotionTrace | null;
+    if (options.trace) {
+        trace = MotionTrace.fromJSON(fs.readFileSync(options.trace, "utf8"));
+        if (!trace || trace.length < 2) {
+            throw new Error(options.trace + " is not a valid motion trace");
+        }
+    } else {
+        trace = scriptedTrace(options.motion, options.amplitude, options.frequency,
+            options.duration > 0 ? options.duration : 10, options.fps);
+    }
+    const duration = options.duration > 0 ? options.duration : trace.duration;
+
+    clock.time = 0;
+    clock.deltaTime = 1 / options.fps;
+
+    const output = new CapturedOutput();
+    const audioController = new AudioController();
+    audioController.inputTrack = wavs.map((wav, i) => createTrackAsset(wav, path.basename(options.tracks[i])));
+    audioController.outputAudio = { name: "output", control: output.control };
+    audioController.audio = { play: () => {}, stop: () => {} };
+    audioController.sampleRate = sampleRate;
+    // The mock output asks for exactly the frames each simulated frame covers
+    audioController.adaptiveOutput = false;
+    // Decode everything up front so the render starts with the tracks loaded
+    audioController.streamLoading = false;
+    applyOverrides(audioController, config.audioController, "AudioController");
+
+    const calculator = new AccelerationCalculator();
+    calculator.replayTraceJson = trace.toJSON();
+    calculator.loopReplay = options.trace.length > 0;
+    applyOverrides(calculator, config.accelerationCalculator, "AccelerationCalculator");
+
+    const toRate = new AccelerationToRate();
+    toRate.accelerationCalculator = calculator;
+    toRate.audioController = audioController;
+    applyOverrides(toRate, config.accelerationToRate, "AccelerationToRate");
+
+    const components: StandInScriptComponent[] = [audioController, calculator, toRate];
+    audioController.onAwake();
+    calculator.onAwake();
+    toRate.onAwake();
+
+    // Simulate the frame loop: updates first, then the audio render in LateUpdate
+    const totalFrames = Math.round(duration * sampleRate);
+    let scheduledFrames = 0;
+    let frame = 0;
+    const startedAt = Date.now();
+
+    while (scheduledFrames < totalFrames) {
+        frame++;
+        clock.time = frame / options.fps;
+        const frameEnd = Math.min(totalFrames, Math.round(clock.time * sampleRate));
+        output.pendingFrames += frameEnd - scheduledFrames;
+        scheduledFrames = frameEnd;
+
+        for (let i = 0; i < components.length; i++) {
+            components[i].fireEvent("UpdateEvent");
+        }
+        // Large frame budgets (low fps) are rendered in several calls
+        let enqueued: number;
+        do {
+            enqueued = output.chunks.length;
+            for (let i = 0; i < components.length; i++) {
+                components[i].fireEvent("LateUpdateEvent");
+            }
+        } while (output.pendingFrames > 0 && output.chunks.length > enqueued);
+    }
+
+    writeWav(options.out, output.toWavData(), options.format);
+    const seconds = (Date.now() - startedAt) / 1000;
+    console.log("Rendered " + duration.toFixed(2) + "s (" + frame + " frames) to " + options.out +
+        " in " + seconds.toFixed(2) + "s");
+}
+
+try {
+    main();
+} catch (e) {
+    console.error("RenderOffline: ERROR - " + (e instanceof Error ? e.message : String(e)));
+    process.exit(1);
+}
@@ -0,0 +1,125 @@
+/**
+ * WavFile.ts
+ *
+ * Reads and writes RIFF/WAVE files for the offline renderer. Reads 8/16/24/32-bit
+ * PCM and 32-bit float; writes 16-bit PCM or 32-bit float. Samples are
+ * interleaved Float32 in -1..1.
+ */
+
+import * as fs from "fs";
+
+export type WavData = {
+    sampleRate: number;
+    channels: number;
+    // Interleaved samples
+    samples: Float32Array;
+};
+
+export enum WavFormat {
+    Pcm16 = "16",
+    Float32 = "float"
+}
+
+export function readWav(path: string): WavData {
+    const buffer = fs.readFileSync(path);
+    if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+        throw new Error(path + " is not a WAV file");
+    }
+
+    let offset = 12;
+    let formatTag = 0;
+    let channels = 0;
+    let sampleRate = 0;
+    let bitsPerSample = 0;
+
+    while (offset + 8 <= buffer.length) {
+        const chunkId = buffer.toString("ascii", offset, offset + 4);
+        const chunkSize = buffer.readUInt32LE(offset + 4);
+        const body = offset + 8;
+
+        if (chunkId === "fmt ") {
+            formatTag = buffer.readUInt16LE(body);
+            channels = buffer.readUInt16LE(body + 2);
+            sampleRate = buffer.readUInt32LE(body + 4);
+            bitsPerSample = buffer.readUInt16LE(body + 14);
+            // WAVE_FORMAT_EXTENSIBLE: the real format is the first field of the sub-format GUID
+            if (formatTag === 0xfffe && chunkSize >= 26) {
+                formatTag = buffer.readUInt16LE(body + 24);
+            }
+        } else if (chunkId === "data") {
+            if (channels === 0) {
+                throw new Error(path + ": data chunk before fmt chunk");
+            }
+            const dataSize = Math.min(chunkSize, buffer.length - body);
+            return {
+                sampleRate: sampleRate,
+                channels: channels,
+                samples: decodeSamples(buffer, body, dataSize, formatTag, bitsPerSample)
+            };
+        }
+
+        // Chunks are padded to an even size
+        offset = body + chunkSize + (chunkSize % 2);
+    }
+
+    throw new Error(path + ": no data chunk");
+}
+
+function decodeSamples(buffer: Buffer, start: number, size: number, formatTag: number, bits: number): Float32Array {
+    const bytes = bits / 8;
+    const count = Math.floor(size / bytes);
+    const samples = new Float32Array(count);
+
+    for (let i = 0; i < count; i++) {
+        const at = start + i * bytes;
+        if (formatTag === 3 && bits === 32) {
+            samples[i] = buffer.readFloatLE(at);
+        } else if (bits === 8) {
+            samples[i] = (buffer.readUInt8(at) - 128) / 128;
+        } else if (bits === 16) {
+            samples[i] = buffer.readInt16LE(at) / 32768;
+        } else if (bits === 24) {
+            samples[i] = buffer.readIntLE(at, 3) / 8388608;
+        } else if (bits === 32) {
+            samples[i] = buffer.readInt32LE(at) / 2147483648;
+        } else {
+            throw new Error("Unsupported WAV format: tag " + formatTag + ", " + bits + " bits");
+        }
+    }
+    return samples;
+}
+
+export function writeWav(path: string, data: WavData, format: WavFormat): void {
+    const isFloat = format === WavFormat.Float32;
+    const bytesPerSample = isFloat ? 4 : 2;
+    const dataSize = data.samples.length * bytesPerSample;
+    const buffer = Buffer.alloc(44 + dataSize);
+
+    buffer.write("RIFF", 0, "ascii");
+    buffer.writeUInt32LE(36 + dataSize, 4);
+    buffer.write("WAVE", 8, "ascii");
+    buffer.write("fmt ", 12, "ascii");
+    buffer.writeUInt32LE(16, 16);
+    buffer.writeUInt16LE(isFloat ? 3 : 1, 20);
+    buffer.writeUInt16LE(data.channels, 22);
+    buffer.writeUInt32LE(data.sampleRate, 24);
+    buffer.writeUInt32LE(data.sampleRate * data.channels * bytesPerSample, 28);
+    buffer.writeUInt16LE(data.channels * bytesPerSample, 32);
+    buffer.writeUInt16LE(bytesPerSample * 8, 34);
+    buffer.write("data", 36, "ascii");
+    buffer.writeUInt32LE(dataSize, 40);
+
+    let offset = 44;
+    for (let i = 0; i < data.samples.length; i++) {
+        const sample = data.samples[i];
+        if (isFloat) {
+            buffer.writeFloatLE(sample, offset);
+        } else {
+            const clamped = Math.max(-1, Math.min(1, sample));
+            buffer.writeInt16LE(Math.round(clamped * 32767), offset);
+        }
+        offset += bytesPerSample;
+    }
+
+    fs.writeFileSync(path, buffer);
+}